@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { COLOR_MODES, isColorMode, legendFor, type ColorMode } from '@/lib/map/color-modes';
+
+interface CoverageLegendProps {
+  mode: ColorMode;
+  onModeChange: (mode: ColorMode) => void;
+  className?: string;
+}
+
+/** Picks how painted roads are coloured and explains the colours */
+const CoverageLegend: React.FC<CoverageLegendProps> = ({ mode, onModeChange, className }) => {
+  // Recent years and ages are relative to when the mode was picked, like the map's colours
+  const entries = useMemo(() => legendFor(mode, Date.now()), [mode]);
+
+  return (
+    <div className={cn("bg-black/70 backdrop-blur-sm rounded-lg p-2 border border-white/10 text-white space-y-2 w-44", className)}>
+      <Select value={mode} onValueChange={value => isColorMode(value) && onModeChange(value)}>
+        <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {COLOR_MODES.map(({ mode: value, label }) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ul className="space-y-1 px-1">
+        {entries.map(({ color, label }) => (
+          <li key={label} className="flex items-center gap-2 text-xs text-gray-300">
+            <span className="h-1.5 w-4 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CoverageLegend;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { BrowserLocationProvider } from '@/lib/tracking/providers/browser';
+import { parseTrackFile, ReplayLocationProvider } from '@/lib/tracking/providers/replay';
+import { SimulatedLocationProvider } from '@/lib/tracking/providers/simulation';
+import type { RawFix } from '@/lib/tracking/kalman';
+import type { LocationProvider, LocationProviderKind } from '@/lib/tracking/providers/types';
+
+interface DeveloperPanelProps {
+  provider: LocationProvider;
+  onProviderChange: (provider: LocationProvider) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const SPEED_MULTIPLIERS = [1, 2, 5, 10, 30];
+
+const DeveloperPanel: React.FC<DeveloperPanelProps> = ({
+  provider,
+  onProviderChange,
+  disabled = false,
+  className
+}) => {
+  const [speedMultiplier, setSpeedMultiplier] = useState(1);
+  const [replay, setReplay] = useState<{ name: string; fixes: RawFix[] } | null>(null);
+
+  const build = (kind: LocationProviderKind, multiplier: number, track = replay): LocationProvider | null => {
+    switch (kind) {
+      case 'browser':
+        return new BrowserLocationProvider();
+      case 'simulation':
+        return new SimulatedLocationProvider({}, multiplier);
+      case 'replay':
+        return track
+          ? new ReplayLocationProvider(track.fixes, { speedMultiplier: multiplier, label: track.name })
+          : null;
+    }
+  };
+
+  const handleKindChange = (kind: LocationProviderKind) => {
+    const next = build(kind, speedMultiplier);
+    if (next) onProviderChange(next);
+  };
+
+  const handleSpeedChange = (value: string) => {
+    const multiplier = Number(value);
+    setSpeedMultiplier(multiplier);
+    const next = build(provider.kind, multiplier);
+    if (next && provider.kind !== 'browser') onProviderChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const fixes = parseTrackFile(file.name, await file.text());
+      if (fixes.length === 0) throw new Error('No points found');
+
+      const track = { name: file.name, fixes };
+      setReplay(track);
+      onProviderChange(build('replay', speedMultiplier, track)!);
+      toast.success(`Loaded ${fixes.length} points from ${file.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read track file');
+    }
+  };
+
+  return (
+    <div className={cn("bg-black/80 backdrop-blur-sm rounded-lg p-3 border border-white/10 text-white space-y-3 w-64", className)}>
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+        Developer mode
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">Location source</Label>
+        <Select value={provider.kind} onValueChange={handleKindChange} disabled={disabled}>
+          <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="browser">Device GPS</SelectItem>
+            <SelectItem value="replay" disabled={!replay}>Replay file</SelectItem>
+            <SelectItem value="simulation">Simulated route</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">GPX / GeoJSON track</Label>
+        <Input
+          type="file"
+          accept=".gpx,.geojson,.json"
+          onChange={handleFile}
+          disabled={disabled}
+          className="h-8 bg-black/50 border-white/20 text-white text-xs file:text-white"
+        />
+        {replay && <div className="text-xs text-gray-400 truncate">{replay.name}</div>}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">Playback speed</Label>
+        <Select
+          value={String(speedMultiplier)}
+          onValueChange={handleSpeedChange}
+          disabled={disabled || provider.kind === 'browser'}
+        >
+          <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEED_MULTIPLIERS.map(multiplier => (
+              <SelectItem key={multiplier} value={String(multiplier)}>{multiplier}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default DeveloperPanel;
@@ -1,47 +1,225 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { toast } from 'sonner';
+import { useTrackingSession } from '@/hooks/use-tracking-session';
+import { isActiveState } from '@/lib/tracking/session';
+import type { RemoteTrackingSession } from '@/lib/tracking/worker/remote-session';
+import type { PaintedSegment } from '@/lib/tracking/types';
+import { completionOf, coveredGeometry } from '@/lib/roads/coverage';
+import type { LocationProvider } from '@/lib/tracking/providers/types';
+import type { BBox } from '@/lib/roads/types';
+import { colorExpression, DEFAULT_COLOR_MODE, type ColorMode } from '@/lib/map/color-modes';
+import { DEFAULT_MAP_STYLE, MAP_STYLES, type MapStyle } from '@/lib/map/styles';
+import { draftZone, zonePolygon, type LngLat, type PrivacyZone, type ZoneDraft } from '@/lib/privacy/zones';
+
+// MapLibre serializes feature properties, so missing values may arrive as "null"
+const describeCoverage = (name: unknown, completion: unknown): string => {
+  const street = typeof name === 'string' && name !== 'null' ? name : 'this street';
+  const fraction = Number(completion);
+  if (completion === null || completion === 'null' || !Number.isFinite(fraction)) {
+    return `Painted ${street}`;
+  }
+  return `${Math.round(fraction * 100)}% of ${street}`;
+};
+
+// Shared by both painted-road sources, so switching between them looks the same
+const PAINTED_ROADS_PAINT: maplibregl.LineLayerSpecification['paint'] = {
+  'line-color': 'hsl(51, 100%, 50%)', // ETS2 yellow
+  'line-width': [
+    'interpolate',
+    ['linear'],
+    ['zoom'],
+    8, 2,
+    12, 4,
+    16, 8
+  ],
+  'line-opacity': 0.8
+};
+
+const PAINTED_ROADS_GLOW_PAINT: maplibregl.LineLayerSpecification['paint'] = {
+  'line-color': 'hsl(51, 100%, 60%)',
+  'line-width': [
+    'interpolate',
+    ['linear'],
+    ['zoom'],
+    8, 4,
+    12, 8,
+    16, 16
+  ],
+  'line-opacity': 0.3,
+  'line-blur': 2
+};
+
+// Layers that show painted roads, whichever source they draw from
+const PAINTED_ROAD_LAYERS = ['painted-roads', 'painted-roads-session'];
+
+/** A line layer and its glow underneath, below the GPS trace once that exists */
+const addPaintedRoadLayers = (
+  map: maplibregl.Map,
+  id: string,
+  source: { source: string; 'source-layer'?: string }
+) => {
+  const layout: maplibregl.LineLayerSpecification['layout'] = {
+    'line-join': 'round',
+    'line-cap': 'round'
+  };
+  map.addLayer(
+    { id, type: 'line', ...source, layout, paint: PAINTED_ROADS_PAINT },
+    map.getLayer('gps-trace-glow') ? 'gps-trace-glow' : undefined
+  );
+  map.addLayer({ id: `${id}-glow`, type: 'line', ...source, layout, paint: PAINTED_ROADS_GLOW_PAINT }, id);
+};
+
+/**
+ * VECTOR TILES: Large collections are drawn from server-rendered tiles, with
+ * the GeoJSON source on top for segments painted since they were fetched.
+ * Switching rebuilds the layers; a new URL only refetches the tiles.
+ */
+const applyPaintedTiles = (map: maplibregl.Map, tiles: PaintedTiles | null) => {
+  const source = map.getSource('painted-roads-tiles') as maplibregl.VectorTileSource | undefined;
+  if (tiles && source) {
+    if (source.tiles?.[0] !== tiles.url) source.setTiles([tiles.url]);
+    return;
+  }
+  if (!tiles && !source) return;
+
+  PAINTED_ROAD_LAYERS.flatMap(id => [id, `${id}-glow`]).forEach(id => {
+    if (map.getLayer(id)) map.removeLayer(id);
+  });
+  if (source) map.removeSource('painted-roads-tiles');
+
+  if (tiles) {
+    map.addSource('painted-roads-tiles', { type: 'vector', tiles: [tiles.url], maxzoom: 16 });
+    addPaintedRoadLayers(map, 'painted-roads', { source: 'painted-roads-tiles', 'source-layer': 'segments' });
+    addPaintedRoadLayers(map, 'painted-roads-session', { source: 'painted-roads' });
+  } else {
+    addPaintedRoadLayers(map, 'painted-roads', { source: 'painted-roads' });
+  }
+};
+
+const NO_ZONES: PrivacyZone[] = [];
+
+// PRIVACY: Saved zones, and the one being drawn with its corners so far
+const toPrivacyZoneFeatures = (zones: PrivacyZone[], draft: ZoneDraft | null): GeoJSON.Feature[] => {
+  const features: GeoJSON.Feature[] = zones.map(zone => ({
+    type: 'Feature',
+    properties: { label: zone.label, draft: false },
+    geometry: zonePolygon(zone)
+  }));
+  if (!draft) return features;
+
+  const drawn = draftZone(draft);
+  if (drawn) {
+    features.push({ type: 'Feature', properties: { label: draft.label, draft: true }, geometry: zonePolygon(drawn) });
+  }
+  draft.points.forEach(point => features.push({
+    type: 'Feature',
+    properties: { draft: true },
+    geometry: { type: 'Point', coordinates: point }
+  }));
+  return features;
+};
+
+export interface PaintedTiles {
+  /** Tile URL template; changing it refetches every tile */
+  url: string;
+  /** Sent with tile requests so the tiles hold the user's segments */
+  accessToken: string;
+}
+
+// PARTIAL COVERAGE: Only the travelled sub-edges of each way are painted
+const toPaintedRoadFeature = (segment: PaintedSegment): GeoJSON.Feature<GeoJSON.Geometry> => ({
+  type: 'Feature',
+  // Feature ids let the source take incremental updates
+  id: segment.id,
+  properties: {
+    id: segment.id,
+    name: segment.name ?? null,
+    visitCount: segment.visitCount,
+    completion: completionOf(segment),
+    firstVisitedAt: segment.firstVisitedAt ?? null,
+    lastVisitedAt: segment.lastVisitedAt ?? null,
+    activity: segment.activity ?? null
+  },
+  geometry: coveredGeometry(segment)
+});
 
 interface MapLibreProps {
-  onLocationUpdate?: (lat: number, lng: number, accuracy?: number) => void;
-  paintedSegments?: Array<{
-    id: string;
-    geometry: GeoJSON.LineString;
-    visitCount: number;
-  }>;
-  gpsTrace?: Array<[number, number]>;
-  isTracking?: boolean;
+  /** Runs in the tracking worker, which reports changes as diffs */
+  session: RemoteTrackingSession;
+  locationProvider: LocationProvider;
+  /** Road-snapped trace to draw instead of the raw GPS polyline */
+  snappedTrace?: GeoJSON.MultiLineString | null;
+  /** Past trace being reviewed or edited; shown in place of the session's trace */
+  previewTrace?: GeoJSON.MultiLineString | null;
+  /** Called with the visible bounds once the map settles after moving */
+  onViewportChange?: (bounds: BBox, zoom: number) => void;
+  /** Draw painted roads from these vector tiles instead of GeoJSON */
+  paintedTiles?: PaintedTiles | null;
+  /** How painted roads are coloured */
+  colorMode?: ColorMode;
+  /** Base map under the painted roads */
+  mapStyle?: MapStyle;
+  /** Areas where nothing is recorded, drawn shaded */
+  privacyZones?: PrivacyZone[];
+  /** A privacy zone being drawn; map taps go to `onMapClick` meanwhile */
+  zoneDraft?: ZoneDraft | null;
+  onMapClick?: (lngLat: LngLat) => void;
 }
 
-const MapLibre: React.FC<MapLibreProps> = ({ 
-  onLocationUpdate, 
-  paintedSegments = [], 
-  gpsTrace = [],
-  isTracking = false 
+const MapLibre: React.FC<MapLibreProps> = ({
+  session,
+  locationProvider,
+  snappedTrace = null,
+  previewTrace = null,
+  onViewportChange,
+  paintedTiles = null,
+  colorMode = DEFAULT_COLOR_MODE,
+  mapStyle = DEFAULT_MAP_STYLE,
+  privacyZones = NO_ZONES,
+  zoneDraft = null,
+  onMapClick
 }) => {
+  const { state, currentLocation, autoPaused } = useTrackingSession(session);
+  const isTracking = isActiveState(state);
+  // AUTO-PAUSE: Fixes keep coming while auto-paused, so moving on resumes the session
+  const listening = isTracking || autoPaused;
+  const liveTrace = useSyncExternalStore(session.subscribeTrace, session.getTrace);
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const userLocationMarker = useRef<maplibregl.Marker | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+
+  // LEVEL OF DETAIL: The worker simplifies the live trace for the zoom, whole zoom levels apart
+  const [traceZoom, setTraceZoom] = useState(12);
+
+  // The map is set up once, so its listeners read the latest callback from here
+  const viewportListener = useRef(onViewportChange);
+  viewportListener.current = onViewportChange;
+  const tiles = useRef(paintedTiles);
+  tiles.current = paintedTiles;
+  // The base map currently shown; the map is created with it and swaps its source later
+  const baseStyle = useRef(mapStyle);
+  const drawing = useRef(zoneDraft !== null);
+  drawing.current = zoneDraft !== null;
+  const clickListener = useRef(onMapClick);
+  clickListener.current = onMapClick;
+
+  // VECTOR TILES: Segments painted this session, drawn from GeoJSON until the map is reseeded
+  const [sessionSegments, setSessionSegments] = useState<ReadonlySet<string>>(() => new Set());
 
   useEffect(() => {
     if (!mapContainer.current) return;
 
-    // Initialize map with OSM tiles
+    // Initialize map with raster base tiles, OSM unless another style is chosen
     map.current = new maplibregl.Map({
       container: mapContainer.current,
       style: {
         version: 8,
         sources: {
-          'osm': {
-            type: 'raster',
-            tiles: [
-              'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
-            ],
-            tileSize: 256,
-            attribution: '© OpenStreetMap contributors'
-          }
+          'osm': MAP_STYLES[baseStyle.current].source
         },
         layers: [
           {
@@ -53,7 +231,15 @@ const MapLibre: React.FC<MapLibreProps> = ({
       },
       center: [-74.006, 40.7128], // NYC default
       zoom: 12,
-      attributionControl: false
+      attributionControl: false,
+      // VECTOR TILES: Painted-road tiles are rendered for the signed-in user
+      transformRequest: (url, resourceType) => {
+        const painted = tiles.current;
+        if (resourceType !== 'Tile' || !painted || !url.startsWith(painted.url.split('{z}')[0])) {
+          return { url };
+        }
+        return { url, headers: { Authorization: `Bearer ${painted.accessToken}` } };
+      }
     });
 
     // Add navigation controls
@@ -67,6 +253,20 @@ const MapLibre: React.FC<MapLibreProps> = ({
       'bottom-right'
     );
 
+    // VIEWPORT LOADING: Painted segments are fetched for the area in view
+    const reportViewport = () => {
+      if (!map.current || !viewportListener.current) return;
+      const bounds = map.current.getBounds();
+      viewportListener.current(
+        [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+        map.current.getZoom()
+      );
+    };
+    map.current.on('moveend', reportViewport);
+    map.current.on('zoomend', () => {
+      if (map.current) setTraceZoom(Math.floor(map.current.getZoom()));
+    });
+
     map.current.on('load', () => {
       // Add painted roads source
       map.current?.addSource('painted-roads', {
@@ -77,52 +277,30 @@ const MapLibre: React.FC<MapLibreProps> = ({
         }
       });
 
-      // Add painted roads layer
-      map.current?.addLayer({
-        id: 'painted-roads',
-        type: 'line',
-        source: 'painted-roads',
-        layout: {
-          'line-join': 'round',
-          'line-cap': 'round'
-        },
-        paint: {
-          'line-color': 'hsl(51, 100%, 50%)', // ETS2 yellow
-          'line-width': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            8, 2,
-            12, 4,
-            16, 8
-          ],
-          'line-opacity': 0.8
-        }
+      // Add painted roads layers, with a glow effect
+      if (map.current) addPaintedRoadLayers(map.current, 'painted-roads', { source: 'painted-roads' });
+
+      // Tap a painted road to see how much of it has been covered
+      map.current?.on('click', PAINTED_ROAD_LAYERS, (e) => {
+        const properties = e.features?.[0]?.properties;
+        if (!properties || !map.current || drawing.current) return;
+
+        new maplibregl.Popup({ closeButton: false, className: 'street-coverage-popup' })
+          .setLngLat(e.lngLat)
+          .setText(describeCoverage(properties.name, properties.completion))
+          .addTo(map.current);
+      });
+      map.current?.on('mouseenter', PAINTED_ROAD_LAYERS, () => {
+        if (map.current && !drawing.current) map.current.getCanvas().style.cursor = 'pointer';
+      });
+      map.current?.on('mouseleave', PAINTED_ROAD_LAYERS, () => {
+        if (map.current && !drawing.current) map.current.getCanvas().style.cursor = '';
       });
 
-      // Add glow effect for painted roads
-      map.current?.addLayer({
-        id: 'painted-roads-glow',
-        type: 'line',
-        source: 'painted-roads',
-        layout: {
-          'line-join': 'round',
-          'line-cap': 'round'
-        },
-        paint: {
-          'line-color': 'hsl(51, 100%, 60%)',
-          'line-width': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            8, 4,
-            12, 8,
-            16, 16
-          ],
-          'line-opacity': 0.3,
-          'line-blur': 2
-        }
-      }, 'painted-roads');
+      // PRIVACY: Taps place a zone being drawn
+      map.current?.on('click', (e) => {
+        if (drawing.current) clickListener.current?.([e.lngLat.lng, e.lngLat.lat]);
+      });
 
       // Add GPS trace source
       map.current?.addSource('gps-trace', {
@@ -179,6 +357,53 @@ const MapLibre: React.FC<MapLibreProps> = ({
           'line-blur': 3
         }
       }, 'gps-trace');
+
+      // PRIVACY: Zones are shaded over everything else
+      map.current?.addSource('privacy-zones', {
+        type: 'geojson',
+        data: {
+          type: 'FeatureCollection',
+          features: []
+        }
+      });
+      map.current?.addLayer({
+        id: 'privacy-zones',
+        type: 'fill',
+        source: 'privacy-zones',
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'fill-color': 'hsl(0, 0%, 10%)',
+          'fill-opacity': ['case', ['get', 'draft'], 0.35, 0.5]
+        }
+      });
+      map.current?.addLayer({
+        id: 'privacy-zones-outline',
+        type: 'line',
+        source: 'privacy-zones',
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'line-color': ['case', ['get', 'draft'], 'hsl(195, 100%, 50%)', 'hsl(0, 0%, 85%)'],
+          'line-width': 2,
+          'line-dasharray': [2, 2]
+        }
+      });
+      map.current?.addLayer({
+        id: 'privacy-zones-corners',
+        type: 'circle',
+        source: 'privacy-zones',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 5,
+          'circle-color': 'hsl(195, 100%, 50%)',
+          'circle-stroke-color': 'white',
+          'circle-stroke-width': 2
+        }
+      });
+
+      setMapLoaded(true);
+
+      // Sources are ready for whatever the first viewport loads
+      reportViewport();
     });
 
     return () => {
@@ -187,145 +412,190 @@ const MapLibre: React.FC<MapLibreProps> = ({
     };
   }, []);
 
-  // Update painted segments
+  useEffect(() => session.subscribe(event => {
+    if (event.type === 'segment') {
+      const { id } = event.piece.segment;
+      setSessionSegments(previous => previous.has(id) ? previous : new Set(previous).add(id));
+    } else if (event.type === 'seeded' || event.type === 'reset') {
+      setSessionSegments(new Set());
+    }
+  }), [session]);
+
   useEffect(() => {
-    if (!map.current || !map.current.isStyleLoaded()) return;
+    if (!mapLoaded || !map.current) return;
+    applyPaintedTiles(map.current, paintedTiles);
+  }, [mapLoaded, paintedTiles]);
 
-    const features = paintedSegments.map(segment => ({
-      type: 'Feature' as const,
-      properties: {
-        id: segment.id,
-        visitCount: segment.visitCount
-      },
-      geometry: segment.geometry
-    }));
+  // Swap the base map under everything else
+  useEffect(() => {
+    if (!mapLoaded || !map.current || mapStyle === baseStyle.current) return;
+    baseStyle.current = mapStyle;
+
+    const layers = map.current.getStyle().layers;
+    map.current.removeLayer('osm');
+    map.current.removeSource('osm');
+    map.current.addSource('osm', MAP_STYLES[mapStyle].source);
+    map.current.addLayer({ id: 'osm', type: 'raster', source: 'osm' }, layers.find(layer => layer.id !== 'osm')?.id);
+  }, [mapLoaded, mapStyle]);
+
+  // COLOR MODES: Both painted-road sources carry the properties the modes colour by
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    const color = colorExpression(colorMode, Date.now());
+    for (const id of PAINTED_ROAD_LAYERS) {
+      if (!map.current.getLayer(id)) continue;
+      map.current.setPaintProperty(id, 'line-color', color);
+      // The single colour keeps its lighter glow
+      map.current.setPaintProperty(`${id}-glow`, 'line-color', typeof color === 'string' ? PAINTED_ROADS_GLOW_PAINT['line-color'] : color);
+    }
+  }, [mapLoaded, paintedTiles, colorMode]);
+
+  // VECTOR TILES: Tiles show everything else; the session's segments are drawn over them
+  useEffect(() => {
+    if (!mapLoaded || !map.current || !paintedTiles) return;
+
+    const painted: maplibregl.FilterSpecification = ['in', ['get', 'id'], ['literal', [...sessionSegments]]];
+    map.current.setFilter('painted-roads-session', painted);
+    map.current.setFilter('painted-roads-session-glow', painted);
+    map.current.setFilter('painted-roads', ['!', painted]);
+    map.current.setFilter('painted-roads-glow', ['!', painted]);
+  }, [mapLoaded, paintedTiles, sessionSegments]);
+
+  // Painted segments: all of them once the map is ready, then only those the worker reports changed
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
 
     const source = map.current.getSource('painted-roads') as maplibregl.GeoJSONSource;
+    source.setData({
+      type: 'FeatureCollection',
+      features: session.getSnapshot().paintedSegments.map(toPaintedRoadFeature)
+    });
+
+    return session.subscribeSegments(({ reset, segments }) => {
+      const features = segments.map(toPaintedRoadFeature);
+      if (reset) {
+        source.setData({ type: 'FeatureCollection', features });
+      } else {
+        source.updateData({ add: features });
+      }
+    });
+  }, [mapLoaded, session]);
+
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    const source = map.current.getSource('privacy-zones') as maplibregl.GeoJSONSource;
+    source.setData({ type: 'FeatureCollection', features: toPrivacyZoneFeatures(privacyZones, zoneDraft) });
+  }, [mapLoaded, privacyZones, zoneDraft]);
+
+  useEffect(() => {
+    if (!map.current) return;
+    map.current.getCanvas().style.cursor = zoneDraft ? 'crosshair' : '';
+  }, [zoneDraft]);
+
+  useEffect(() => {
+    session.setTraceZoom(traceZoom);
+  }, [session, traceZoom]);
+
+  // Update GPS trace: one line per part so pause gaps aren't bridged
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    // MAP MATCHING: Prefer the road-snapped line once the trace is processed
+    const traceFeature = {
+      type: 'Feature' as const,
+      properties: { snapped: !previewTrace && !!snappedTrace },
+      geometry: previewTrace ?? snappedTrace ?? liveTrace
+    };
+
+    const source = map.current.getSource('gps-trace') as maplibregl.GeoJSONSource;
     if (source) {
       source.setData({
         type: 'FeatureCollection',
-        features
+        features: [traceFeature]
       });
     }
-  }, [paintedSegments]);
+  }, [mapLoaded, liveTrace, snappedTrace, previewTrace]);
 
-  // Update GPS trace
+  // Bring a previewed trace into view; trimming it keeps it in view, so the map stays put
   useEffect(() => {
-    if (!map.current || !map.current.isStyleLoaded()) return;
-
-    if (gpsTrace.length > 1) {
-      const traceFeature = {
-        type: 'Feature' as const,
-        properties: {},
-        geometry: {
-          type: 'LineString' as const,
-          coordinates: gpsTrace
-        }
-      };
+    if (!previewTrace || previewTrace.coordinates.length === 0 || !map.current) return;
 
-      const source = map.current.getSource('gps-trace') as maplibregl.GeoJSONSource;
-      if (source) {
-        source.setData({
-          type: 'FeatureCollection',
-          features: [traceFeature]
-        });
-      }
-    }
-  }, [gpsTrace]);
+    const bounds = new maplibregl.LngLatBounds();
+    previewTrace.coordinates.flat().forEach(([lng, lat]) => bounds.extend([lng, lat]));
 
-  // Real-time GPS tracking with optimized polling interval
+    const visible = map.current.getBounds();
+    if (visible.contains(bounds.getSouthWest()) && visible.contains(bounds.getNorthEast())) return;
+    map.current.fitBounds(bounds, { padding: 48, maxZoom: 16, duration: 800 });
+  }, [previewTrace]);
+
+  // Real-time tracking from whichever location provider is selected
   useEffect(() => {
-    if (!isTracking) return;
+    if (!listening) return;
 
-    const watchId = navigator.geolocation.watchPosition(
-      (position) => {
-        const { latitude, longitude, accuracy } = position.coords;
-        
+    locationProvider.start(
+      (fix) => {
         // DEBUGGING: Log position data (console only, no UI overlay)
         console.log('GPS:', {
-          lat: latitude.toFixed(7),
-          lng: longitude.toFixed(7), 
-          accuracy: accuracy.toFixed(1),
-          timestamp: new Date().toISOString()
+          source: locationProvider.kind,
+          lat: fix.lat.toFixed(7),
+          lng: fix.lng.toFixed(7), 
+          accuracy: fix.accuracy?.toFixed(1),
+          timestamp: new Date(fix.timestamp).toISOString()
         });
         
-        // ACCURACY FILTER: Skip noisy GPS fixes for smooth tracking
-        if (accuracy > 50) {
-          console.log('GPS: Skipping inaccurate fix, accuracy:', accuracy);
-          return;
-        }
-        
-        // COORDINATE ORDER: MapLibre/GeoJSON uses [lng, lat]
-        const newLocation: [number, number] = [longitude, latitude];
-        
-        setUserLocation(newLocation);
-        onLocationUpdate?.(latitude, longitude, accuracy); // Pass accuracy to parent
-
-        if (map.current) {
-          // Update user location marker with smooth animation
-          if (userLocationMarker.current) {
-            userLocationMarker.current.setLngLat(newLocation);
-          } else {
-            // Create user location marker with pulsing animation
-            const el = document.createElement('div');
-            el.className = 'user-location-marker';
-            el.style.cssText = `
-              width: 20px;
-              height: 20px;
-              border-radius: 50%;
-              background: hsl(195, 100%, 50%);
-              border: 3px solid white;
-              box-shadow: 0 0 15px hsl(195, 100%, 50% / 0.6);
-              animation: pulse-glow 2s ease-in-out infinite;
-            `;
-
-            userLocationMarker.current = new maplibregl.Marker(el)
-              .setLngLat(newLocation)
-              .addTo(map.current);
-          }
-
-          // SMOOTH MAP FOLLOWING: Center on user with smooth animation
-          if (isTracking) {
-            map.current.easeTo({
-              center: newLocation,
-              duration: 800, // Slightly faster for mobile responsiveness
-              essential: true
-            });
-          }
-        }
+        // FILTERING: The worker's Kalman filter weights each fix by accuracy and flags outliers
+        session.addFix(fix);
       },
       (error) => {
         console.error('GPS Error:', error);
         // Don't show toast errors for better mobile UX during poor GPS signal
-      },
-      {
-        // REAL-TIME GPS OPTIONS: 5-10 second polling interval for battery efficiency
-        enableHighAccuracy: true,
-        timeout: 15000, // Longer timeout for mobile
-        maximumAge: 7500 // 7.5 seconds - middle of 5-10 second range for optimal polling
       }
     );
 
     return () => {
-      navigator.geolocation.clearWatch(watchId);
+      locationProvider.stop();
     };
-  }, [isTracking, onLocationUpdate]);
-
-  // Helper function for distance calculation
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI/180;
-    const φ2 = lat2 * Math.PI/180;
-    const Δφ = (lat2-lat1) * Math.PI/180;
-    const Δλ = (lng2-lng1) * Math.PI/180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c;
-  };
+  }, [listening, session, locationProvider]);
+
+  // Follow the filtered position, which arrives from the worker after each accepted fix
+  useEffect(() => {
+    if (!isTracking || !currentLocation || !map.current) return;
+
+    // COORDINATE ORDER: MapLibre/GeoJSON uses [lng, lat]
+    const newLocation: [number, number] = [currentLocation.lng, currentLocation.lat];
+    setUserLocation(newLocation);
+
+    // Update user location marker with smooth animation
+    if (userLocationMarker.current) {
+      userLocationMarker.current.setLngLat(newLocation);
+    } else {
+      // Create user location marker with pulsing animation
+      const el = document.createElement('div');
+      el.className = 'user-location-marker';
+      el.style.cssText = `
+        width: 20px;
+        height: 20px;
+        border-radius: 50%;
+        background: hsl(195, 100%, 50%);
+        border: 3px solid white;
+        box-shadow: 0 0 15px hsl(195, 100%, 50% / 0.6);
+        animation: pulse-glow 2s ease-in-out infinite;
+      `;
+
+      userLocationMarker.current = new maplibregl.Marker(el)
+        .setLngLat(newLocation)
+        .addTo(map.current);
+    }
+
+    // SMOOTH MAP FOLLOWING: Center on user with smooth animation
+    map.current.easeTo({
+      center: newLocation,
+      duration: 800, // Slightly faster for mobile responsiveness
+      essential: true
+    });
+  }, [currentLocation, isTracking]);
 
   return (
     <div className="relative w-full h-full">
@@ -1,31 +1,53 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, Square } from 'lucide-react';
+import { Play, Pause, Square, CloudUpload } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useTrackingSession } from '@/hooks/use-tracking-session';
+import { isActiveState, type TrackingSessionApi } from '@/lib/tracking/session';
+import {
+  DEFAULT_UNITS,
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  formatLength,
+  formatPace,
+  formatSpeed,
+  type UnitSystem
+} from '@/lib/units/format';
 
 interface MobileHUDProps {
-  isTracking: boolean;
-  gpsAccuracy: number;
-  distanceTraveled: number;
+  session: TrackingSessionApi;
+  /** Writes waiting in the offline outbox */
+  pendingWrites: number;
+  units?: UnitSystem;
   onStartTracking: () => void;
   onPauseTracking: () => void;
+  onResumeTracking: () => void;
   onStopTracking: () => void;
   className?: string;
 }
 
 const MobileHUD: React.FC<MobileHUDProps> = ({
-  isTracking,
-  gpsAccuracy,
-  distanceTraveled,
+  session,
+  pendingWrites,
+  units = DEFAULT_UNITS,
   onStartTracking,
   onPauseTracking,
+  onResumeTracking,
   onStopTracking,
   className
 }) => {
-  const formatDistance = (meters: number) => {
-    if (meters < 1000) return `${Math.round(meters)}m`;
-    return `${(meters / 1000).toFixed(1)}km`;
-  };
+  const {
+    state,
+    gpsAccuracy,
+    totalDistance: distanceTraveled,
+    autoPaused,
+    elapsedTime,
+    currentSpeed,
+    currentLocation
+  } = useTrackingSession(session);
+  const isTracking = isActiveState(state);
+  const isPaused = state === 'paused';
 
   const getAccuracyColor = (accuracy: number) => {
     if (accuracy <= 10) return 'text-green-400';
@@ -36,23 +58,40 @@ const MobileHUD: React.FC<MobileHUDProps> = ({
   return (
     <div className={cn("fixed inset-x-0 bottom-0 z-20", className)}>
       {/* Top accuracy indicator */}
-      <div className="absolute top-4 left-4 z-30">
+      <div className="absolute top-4 left-4 z-30 flex gap-2">
         <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
           <div className="flex items-center gap-2">
             <div className={cn("w-2 h-2 rounded-full", getAccuracyColor(gpsAccuracy))} />
             <span className={cn("text-sm font-mono", getAccuracyColor(gpsAccuracy))}>
-              ±{gpsAccuracy.toFixed(0)}m
+              ±{formatLength(gpsAccuracy, units)}
             </span>
           </div>
         </div>
+
+        {/* Offline outbox indicator */}
+        {pendingWrites > 0 && (
+          <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
+            <div className="flex items-center gap-2 text-sm font-mono text-orange-400">
+              <CloudUpload className="h-4 w-4" />
+              {pendingWrites}
+            </div>
+          </div>
+        )}
+
+        {/* AUTO-PAUSE: Tracking resumes by itself once the user moves on */}
+        {isPaused && autoPaused && (
+          <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
+            <span className="text-sm font-mono text-yellow-400">Auto-paused</span>
+          </div>
+        )}
       </div>
 
       {/* Distance indicator (optional, small) */}
-      {isTracking && distanceTraveled > 0 && (
+      {(isTracking || isPaused) && distanceTraveled > 0 && (
         <div className="absolute top-4 right-4 z-30">
           <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
             <span className="text-sm font-mono text-white">
-              {formatDistance(distanceTraveled)}
+              {formatDistance(distanceTraveled, units)}
             </span>
           </div>
         </div>
@@ -60,8 +99,25 @@ const MobileHUD: React.FC<MobileHUDProps> = ({
 
       {/* Bottom control bar */}
       <div className="bg-black/80 backdrop-blur-md border-t border-white/10 px-6 py-4 safe-area-pb">
+        {/* Session stats, in the user's units */}
+        {(isTracking || isPaused) && (
+          <div className="grid grid-cols-4 gap-2 mb-3 text-center">
+            {[
+              { label: 'Time', value: formatDuration(elapsedTime) },
+              { label: 'Speed', value: formatSpeed(currentSpeed, units) },
+              { label: 'Pace', value: formatPace(currentSpeed, units) },
+              { label: 'Elevation', value: formatElevation(currentLocation?.altitude, units) }
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <div className="text-[10px] uppercase tracking-wide text-gray-400">{label}</div>
+                <div className="text-sm font-mono text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center justify-center">
-          {!isTracking ? (
+          {!isTracking && !isPaused ? (
             <Button 
               variant="default"
               size="lg"
@@ -73,15 +129,27 @@ const MobileHUD: React.FC<MobileHUDProps> = ({
             </Button>
           ) : (
             <div className="flex gap-4">
-              <Button 
-                variant="secondary"
-                size="lg"
-                onClick={onPauseTracking}
-                className="bg-yellow-600 hover:bg-yellow-700 text-white px-6 py-3 rounded-full font-semibold shadow-lg active:scale-95 transition-all duration-150"
-              >
-                <Pause className="h-5 w-5 mr-2" fill="currentColor" />
-                Pause
-              </Button>
+              {isPaused ? (
+                <Button 
+                  variant="default"
+                  size="lg"
+                  onClick={onResumeTracking}
+                  className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-full font-semibold shadow-lg active:scale-95 transition-all duration-150"
+                >
+                  <Play className="h-5 w-5 mr-2" fill="currentColor" />
+                  Resume
+                </Button>
+              ) : (
+                <Button 
+                  variant="secondary"
+                  size="lg"
+                  onClick={onPauseTracking}
+                  className="bg-yellow-600 hover:bg-yellow-700 text-white px-6 py-3 rounded-full font-semibold shadow-lg active:scale-95 transition-all duration-150"
+                >
+                  <Pause className="h-5 w-5 mr-2" fill="currentColor" />
+                  Pause
+                </Button>
+              )}
               <Button 
                 variant="destructive"
                 size="lg"
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Briefcase, Circle, Home, Pentagon, Trash2, Undo2 } from 'lucide-react';
+import type { RoadNetwork } from '@/lib/roads/network';
+import type { PaintingOptions } from '@/lib/tracking/painting';
+import { savePrivacyZones, scrubPrivacyZone } from '@/lib/privacy/supabase-zones';
+import { DEFAULT_ZONE_RADIUS, draftZone, type LngLat, type PrivacyZone, type ZoneDraft } from '@/lib/privacy/zones';
+import { DEFAULT_UNITS, formatDistance, type UnitSystem } from '@/lib/units/format';
+
+interface PrivacyZonesProps {
+  userId: string;
+  /** Scrubbed traces are painted again over the road network */
+  network: RoadNetwork;
+  /** The user's painting settings, which scrubbed traces are painted again with */
+  painting?: Partial<PaintingOptions>;
+  zones: PrivacyZone[];
+  onZonesChange: (zones: PrivacyZone[]) => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The zone being drawn; the map adds points to it while set */
+  draft: ZoneDraft | null;
+  onDraftChange: (draft: ZoneDraft | null) => void;
+  /** Where home and work zones start, if known */
+  currentLocation: LngLat | null;
+  /** Adding zones waits until no session is running and queued uploads are done */
+  disabled?: boolean;
+  /** Segments and stats changed server-side */
+  onChanged: () => void;
+  units?: UnitSystem;
+}
+
+const MIN_RADIUS = 50;
+const MAX_RADIUS = 1000;
+
+const describeZone = ({ shape }: PrivacyZone, units: UnitSystem): string =>
+  shape.type === 'circle' ? `${formatDistance(shape.radius, units)} around a point` : `Area with ${shape.coordinates.length} corners`;
+
+const PrivacyZones: React.FC<PrivacyZonesProps> = ({
+  userId,
+  network,
+  painting,
+  zones,
+  onZonesChange,
+  open,
+  onOpenChange,
+  draft,
+  onDraftChange,
+  currentLocation,
+  disabled = false,
+  onChanged,
+  units = DEFAULT_UNITS
+}) => {
+  const [busy, setBusy] = useState(false);
+
+  // The sheet closes so the map can be tapped
+  const startDraft = (shape: ZoneDraft['shape'], label: string, points: LngLat[] = []) => {
+    onDraftChange({ shape, label, points, radius: DEFAULT_ZONE_RADIUS });
+    onOpenChange(false);
+  };
+
+  const handleDelete = async (zone: PrivacyZone) => {
+    setBusy(true);
+    try {
+      const remaining = zones.filter(other => other.id !== zone.id);
+      await savePrivacyZones(userId, remaining);
+      onZonesChange(remaining);
+      toast.success(`${zone.label} removed; new sessions will be recorded there`);
+    } catch (error) {
+      toast.error('Could not update your privacy zones');
+      console.error('Error saving privacy zones:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // New zones apply to the session at once, then what's already stored inside is scrubbed
+  const handleSave = async () => {
+    const zone = draft ? draftZone(draft) : null;
+    if (!zone) return;
+
+    setBusy(true);
+    try {
+      const next = [...zones, zone];
+      await savePrivacyZones(userId, next);
+      onZonesChange(next);
+      onDraftChange(null);
+    } catch (error) {
+      toast.error('Could not save this privacy zone');
+      console.error('Error saving privacy zones:', error);
+      setBusy(false);
+      return;
+    }
+
+    try {
+      const scrubbed = await scrubPrivacyZone(zone, network, painting);
+      toast.success(scrubbed > 0
+        ? `${zone.label} saved; ${scrubbed} ${scrubbed === 1 ? 'session was' : 'sessions were'} scrubbed`
+        : `${zone.label} saved`);
+      if (scrubbed > 0) onChanged();
+    } catch (error) {
+      toast.error(`${zone.label} saved, but your past sessions inside it could not be scrubbed`);
+      console.error('Error scrubbing privacy zone:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canSave = !!draft && !!draftZone(draft) && !busy;
+  const hint = !draft
+    ? ''
+    : draft.shape === 'circle'
+      ? 'Tap the map to place the center'
+      : `Tap the map to add corners (${draft.points.length} so far, at least 3)`;
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="right" className="bg-black/90 backdrop-blur-md border-white/10 text-white flex flex-col">
+          <SheetHeader>
+            <SheetTitle className="text-white">Privacy zones</SheetTitle>
+            <SheetDescription className="text-gray-400">
+              {disabled
+                ? 'Zones can be added once tracking has stopped and uploads have finished.'
+                : 'Nothing is recorded inside these areas. Adding one also removes what your past sessions recorded there.'}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={disabled || busy}
+              onClick={() => startDraft('circle', 'Home', currentLocation ? [currentLocation] : [])}
+            >
+              <Home className="h-4 w-4 mr-1" />
+              Home
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={disabled || busy}
+              onClick={() => startDraft('circle', 'Work', currentLocation ? [currentLocation] : [])}
+            >
+              <Briefcase className="h-4 w-4 mr-1" />
+              Work
+            </Button>
+            <Button size="sm" variant="secondary" disabled={disabled || busy} onClick={() => startDraft('circle', 'Private area')}>
+              <Circle className="h-4 w-4 mr-1" />
+              Circle
+            </Button>
+            <Button size="sm" variant="secondary" disabled={disabled || busy} onClick={() => startDraft('polygon', 'Private area')}>
+              <Pentagon className="h-4 w-4 mr-1" />
+              Polygon
+            </Button>
+          </div>
+
+          <ScrollArea className="flex-1 -mx-2">
+            <div className="space-y-2 px-2">
+              {zones.length === 0 && (
+                <p className="text-sm text-gray-400">No privacy zones yet.</p>
+              )}
+
+              {zones.map(zone => (
+                <div key={zone.id} className="flex items-center gap-2 rounded-lg border border-white/10 bg-white/5 px-3 py-2">
+                  <div className="flex-1">
+                    <div className="text-sm font-medium">{zone.label}</div>
+                    <div className="text-xs font-mono text-gray-400">{describeZone(zone, units)}</div>
+                  </div>
+                  <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleDelete(zone)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      {/* Drawing toolbar, over the map while the sheet is closed */}
+      {draft && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 w-72 space-y-3 rounded-xl border border-white/10 bg-black/80 p-3 text-white backdrop-blur-sm">
+          <div>
+            <div className="text-sm font-medium">{draft.label}</div>
+            <div className="text-xs text-gray-400">{hint}</div>
+          </div>
+
+          {draft.shape === 'circle' && (
+            <div className="space-y-1">
+              <Slider
+                min={MIN_RADIUS}
+                max={MAX_RADIUS}
+                step={10}
+                value={[draft.radius]}
+                onValueChange={([radius]) => onDraftChange({ ...draft, radius })}
+              />
+              <div className="text-xs font-mono text-gray-400 text-center">{formatDistance(draft.radius, units)} radius</div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={() => onDraftChange(null)} disabled={busy}>Cancel</Button>
+            {draft.shape === 'polygon' && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy || draft.points.length === 0}
+                onClick={() => onDraftChange({ ...draft, points: draft.points.slice(0, -1) })}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button size="sm" className="ml-auto" onClick={handleSave} disabled={!canSave}>
+              Save zone
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PrivacyZones;
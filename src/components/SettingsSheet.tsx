@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Shield } from 'lucide-react';
+import { COLOR_MODES } from '@/lib/map/color-modes';
+import { MAP_STYLES, MAP_STYLE_IDS } from '@/lib/map/styles';
+import { preferencesSchema, type Preferences } from '@/lib/preferences/preferences';
+import { updatePreferences } from '@/lib/preferences/supabase-preferences';
+import { UNIT_SYSTEMS, UNIT_SYSTEM_LABELS, formatLength } from '@/lib/units/format';
+
+interface SettingsSheetProps {
+  userId: string;
+  preferences: Preferences;
+  /** Called with the saved preferences, which apply straight away */
+  onPreferencesChange: (preferences: Preferences) => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Privacy zones have their own editor */
+  onEditPrivacyZones: () => void;
+}
+
+// Zones are edited elsewhere, so saving settings leaves them as they are
+const settingsSchema = preferencesSchema.omit({ excluded_zones: true });
+
+const SettingsSheet: React.FC<SettingsSheetProps> = ({
+  userId,
+  preferences,
+  onPreferencesChange,
+  open,
+  onOpenChange,
+  onEditPrivacyZones
+}) => {
+  const [draft, setDraft] = useState(preferences);
+  const [saving, setSaving] = useState(false);
+
+  // Each opening starts from what's saved; later changes (e.g. from the legend) leave the draft alone
+  const saved = useRef(preferences);
+  saved.current = preferences;
+  useEffect(() => {
+    if (open) setDraft(saved.current);
+  }, [open]);
+
+  const change = <K extends keyof Preferences>(key: K, value: Preferences[K]) =>
+    setDraft(previous => ({ ...previous, [key]: value }));
+
+  const handleSave = async () => {
+    const parsed = settingsSchema.safeParse(draft);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Some settings are invalid');
+      return;
+    }
+
+    const changes = parsed.data;
+    setSaving(true);
+    try {
+      await updatePreferences(userId, changes);
+      onPreferencesChange({ ...preferences, ...changes });
+      toast.success('Settings saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Could not save your settings');
+      console.error('Error saving preferences:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="bg-black/90 backdrop-blur-md border-white/10 text-white flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-white">Settings</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Saved to your account and applied straight away, including to a session in progress.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="space-y-5 px-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Units</Label>
+              <Select value={draft.units} onValueChange={value => change('units', value as Preferences['units'])}>
+                <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_SYSTEMS.map(units => (
+                    <SelectItem key={units} value={units}>{UNIT_SYSTEM_LABELS[units]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Map</Label>
+              <Select value={draft.map_style} onValueChange={value => change('map_style', value as Preferences['map_style'])}>
+                <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAP_STYLE_IDS.map(style => (
+                    <SelectItem key={style} value={style}>{MAP_STYLES[style].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Street colours</Label>
+              <Select value={draft.color_mode} onValueChange={value => change('color_mode', value as Preferences['color_mode'])}>
+                <SelectTrigger className="h-8 bg-black/50 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLOR_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-300">GPS accuracy threshold</Label>
+              <Slider
+                min={10}
+                max={150}
+                step={5}
+                value={[draft.accuracy_threshold]}
+                onValueChange={([meters]) => change('accuracy_threshold', meters)}
+              />
+              <p className="text-xs text-gray-400">
+                Ignore positions less accurate than {formatLength(draft.accuracy_threshold, draft.units)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-300">Segment threshold</Label>
+              <Slider
+                min={5}
+                max={100}
+                step={5}
+                value={[draft.segment_threshold]}
+                onValueChange={([meters]) => change('segment_threshold', meters)}
+              />
+              <p className="text-xs text-gray-400">
+                Paint a street after {formatLength(draft.segment_threshold, draft.units)} along it
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="auto-pause" className="text-sm">Auto-pause</Label>
+                <p className="text-xs text-gray-400">Pause when you stop for a minute, resume when you move on</p>
+              </div>
+              <Switch id="auto-pause" checked={draft.auto_pause} onCheckedChange={checked => change('auto_pause', checked)} />
+            </div>
+
+            <Button variant="secondary" size="sm" className="w-full" onClick={onEditPrivacyZones}>
+              <Shield className="h-4 w-4 mr-1" />
+              Privacy zones ({preferences.excluded_zones.length})
+            </Button>
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button size="sm" className="ml-auto" onClick={handleSave} disabled={saving}>Save</Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SettingsSheet;
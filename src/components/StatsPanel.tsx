@@ -2,13 +2,15 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { MapPin, Route, Clock, Zap } from 'lucide-react';
+import { MapPin, Route, Clock, Zap, Timer } from 'lucide-react';
+import { DEFAULT_UNITS, formatDistance, formatDuration, formatPace, formatSpeed, type UnitSystem } from '@/lib/units/format';
 
 interface StatsPanelProps {
   totalDistance: number;
   streetsDiscovered: number;
   trackingTime: number;
   currentSpeed: number;
+  units?: UnitSystem;
   isVisible: boolean;
   onClose: () => void;
 }
@@ -18,26 +20,10 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
   streetsDiscovered,
   trackingTime,
   currentSpeed,
+  units = DEFAULT_UNITS,
   isVisible,
   onClose
 }) => {
-  const formatDistance = (meters: number) => {
-    if (meters < 1000) return `${Math.round(meters)}m`;
-    return `${(meters / 1000).toFixed(1)}km`;
-  };
-
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    if (hours > 0) return `${hours}h ${minutes}m`;
-    return `${minutes}m`;
-  };
-
-  const formatSpeed = (metersPerSecond: number) => {
-    const kmh = metersPerSecond * 3.6;
-    return `${kmh.toFixed(1)} km/h`;
-  };
-
   if (!isVisible) return null;
 
   return (
@@ -65,7 +51,7 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
               <span className="text-sm font-medium">Distance Traveled</span>
             </div>
             <div className="text-2xl font-bold text-road-painted">
-              {formatDistance(totalDistance)}
+              {formatDistance(totalDistance, units)}
             </div>
             <Progress value={Math.min((totalDistance / 10000) * 100, 100)} className="h-2" />
           </div>
@@ -91,7 +77,7 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
                 <Clock className="h-3 w-3 text-muted-foreground" />
                 <span className="text-xs text-muted-foreground">Time</span>
               </div>
-              <div className="text-lg font-semibold">{formatTime(trackingTime)}</div>
+              <div className="text-lg font-semibold">{formatDuration(trackingTime)}</div>
             </div>
             
             <div className="space-y-1">
@@ -99,7 +85,15 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
                 <Zap className="h-3 w-3 text-muted-foreground" />
                 <span className="text-xs text-muted-foreground">Speed</span>
               </div>
-              <div className="text-lg font-semibold">{formatSpeed(currentSpeed)}</div>
+              <div className="text-lg font-semibold">{formatSpeed(currentSpeed, units)}</div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center gap-1">
+                <Timer className="h-3 w-3 text-muted-foreground" />
+                <span className="text-xs text-muted-foreground">Pace</span>
+              </div>
+              <div className="text-lg font-semibold">{formatPace(currentSpeed, units)}</div>
             </div>
           </div>
 
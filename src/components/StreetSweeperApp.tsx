@@ -1,45 +1,102 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import MapLibre from './MapLibre';
+import MapLibre, { type PaintedTiles } from './MapLibre';
 import MobileHUD from './MobileHUD';
 import AuthModal from './AuthModal';
+import DeveloperPanel from './DeveloperPanel';
+import TraceHistory from './TraceHistory';
+import PrivacyZones from './PrivacyZones';
+import CoverageLegend from './CoverageLegend';
+import SettingsSheet from './SettingsSheet';
 import { Button } from '@/components/ui/button';
-import { LogOut, BarChart3 } from 'lucide-react';
-
-interface LocationPoint {
-  lat: number;
-  lng: number;
-  timestamp: number;
-  accuracy?: number;
-}
-
-interface PaintedSegment {
-  id: string;
-  geometry: GeoJSON.LineString;
-  visitCount: number;
-}
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { LogOut, BarChart3, Bug, History, Settings, Shield } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTrackingSession } from '@/hooks/use-tracking-session';
+import { usePendingWrites } from '@/hooks/use-outbox';
+import { Outbox } from '@/lib/sync/outbox';
+import { writesSegments } from '@/lib/sync/types';
+import { createOutboxStore } from '@/lib/sync/store';
+import { executeSupabaseOperation } from '@/lib/sync/supabase-executor';
+import { RoadNetwork } from '@/lib/roads/network';
+import { loadWaysFromSupabase } from '@/lib/roads/supabase-loader';
+import { loadPreferences, updatePreferences } from '@/lib/preferences/supabase-preferences';
+import { DEFAULT_PREFERENCES, toTrackingSettings, type Preferences } from '@/lib/preferences/preferences';
+import { addDraftPoint, type LngLat, type PrivacyZone, type ZoneDraft } from '@/lib/privacy/zones';
+import type { ColorMode } from '@/lib/map/color-modes';
+import type { BBox } from '@/lib/roads/types';
+import { BrowserLocationProvider } from '@/lib/tracking/providers/browser';
+import type { LocationProvider } from '@/lib/tracking/providers/types';
+import { attachSupabasePersistence, createUploadCursor } from '@/lib/tracking/supabase-persistence';
+import { attachCheckpointing, loadCheckpoint, type SessionCheckpoint } from '@/lib/tracking/recovery';
+import { SegmentTiles } from '@/lib/tracking/segment-tiles';
+import { loadSegmentStats, loadSegmentsFromSupabase, segmentTileUrl } from '@/lib/tracking/supabase-segments';
+import { parseSnappedGeometry, parseTracePoints, type TraceParts } from '@/lib/tracking/trace';
+import { RemoteTrackingSession } from '@/lib/tracking/worker/remote-session';
+
+// VECTOR TILES: Beyond this many segments, painted roads are drawn from server-rendered tiles
+const VECTOR_TILE_MIN_SEGMENTS = 5000;
 
 const StreetSweeperApp: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [isTracking, setIsTracking] = useState(false);
   
-  // Tracking state
-  const [currentLocation, setCurrentLocation] = useState<LocationPoint | null>(null);
-  const [locationHistory, setLocationHistory] = useState<LocationPoint[]>([]);
-  const [paintedSegments, setPaintedSegments] = useState<PaintedSegment[]>([]);
-  const [currentTraceId, setCurrentTraceId] = useState<string | null>(null);
-  const [gpsTrace, setGpsTrace] = useState<Array<[number, number]>>([]);
-  
-  // Mobile-optimized stats
-  const [totalDistance, setTotalDistance] = useState(0);
-  const [streetsDiscovered, setStreetsDiscovered] = useState(0);
-  const [trackingTime, setTrackingTime] = useState(0);
-  const [currentSpeed, setCurrentSpeed] = useState(0);
-  const [gpsAccuracy, setGpsAccuracy] = useState(0);
+  // ROAD NETWORK: Edited past sessions are painted again over the OSM ways they ran along
+  const [roadNetwork] = useState(() => new RoadNetwork(loadWaysFromSupabase));
+
+  // PERFORMANCE: Filtering, painting and trace simplification run in a worker; the
+  // ways around the user are fetched here, where the signed-in client lives
+  const [trackingSession] = useState(() => new RemoteTrackingSession(loadWaysFromSupabase));
+  const { state: trackingState, currentLocation } = useTrackingSession(trackingSession);
+
+  // VIEWPORT LOADING: Painted segments are fetched for the visible area and cached by tile
+  const [segmentTiles] = useState(() => new SegmentTiles(loadSegmentsFromSupabase));
+  const viewport = useRef<{ bounds: BBox; zoom: number } | null>(null);
+
+  // VECTOR TILES: Versioned so tiles are refetched once new segments are written
+  const [segmentCount, setSegmentCount] = useState(0);
+  const [tileVersion, setTileVersion] = useState(() => Date.now());
+
+  // Road-snapped version of the loaded trace, once the matcher has processed it
+  const [snappedTrace, setSnappedTrace] = useState<GeoJSON.MultiLineString | null>(null);
+
+  // OFFLINE-FIRST: Writes are queued durably and replayed when online
+  const [outbox] = useState(() => new Outbox(createOutboxStore(), executeSupabaseOperation));
+  const pendingWrites = usePendingWrites(outbox);
+
+  // TRACE HISTORY: Past sessions can be deleted or edited, rebuilding painted streets
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewTrace, setPreviewTrace] = useState<GeoJSON.MultiLineString | null>(null);
+
+  // SETTINGS: Saved in users.preferences and applied live to tracking and the map
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // PRIVACY: Nothing is recorded inside the user's privacy zones
+  const privacyZones = preferences.excluded_zones;
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [zoneDraft, setZoneDraft] = useState<ZoneDraft | null>(null);
+
+  // RECOVERY: Active sessions are checkpointed locally in case the tab is killed
+  const [uploadCursor] = useState(createUploadCursor);
+  const [interruptedSession, setInterruptedSession] = useState<SessionCheckpoint | null>(null);
+
+  // DEVELOPER MODE: Swap device GPS for a replayed or simulated route
+  const developerModeAvailable = import.meta.env.DEV || new URLSearchParams(window.location.search).has('dev');
+  const [developerMode, setDeveloperMode] = useState(false);
+  const [locationProvider, setLocationProvider] = useState<LocationProvider>(() => new BrowserLocationProvider());
 
   // Auth state management
   useEffect(() => {
@@ -65,208 +122,132 @@ const StreetSweeperApp: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  // Load user data when authenticated
+  useEffect(() => () => trackingSession.dispose(), [trackingSession]);
+
   useEffect(() => {
-    if (!user) return;
+    outbox.start();
+    return () => outbox.dispose();
+  }, [outbox]);
 
-    const loadUserData = async () => {
-      try {
-        // Load user segments
-        const { data: segments, error } = await supabase
-          .from('segments')
-          .select('*')
-          .eq('user_id', user.id);
-
-        if (error) throw error;
-
-        if (segments) {
-          const paintedSegs = segments.map(segment => ({
-            id: segment.id,
-            geometry: segment.geometry as any as GeoJSON.LineString,
-            visitCount: segment.visit_count
-          }));
-          
-          setPaintedSegments(paintedSegs);
-          setStreetsDiscovered(segments.length);
-          
-          // Calculate total distance
-          const distance = segments.reduce((sum, seg) => sum + (seg.distance_meters || 0), 0);
-          setTotalDistance(distance);
-        }
+  // Segment writes arrive in bursts, so tiles are refetched once the queue drains
+  useEffect(() => {
+    let written = false;
+    const detachDelivered = outbox.onDelivered(operation => {
+      if (writesSegments(operation)) written = true;
+    });
+    const detachPending = outbox.subscribe(pendingCount => {
+      if (pendingCount > 0 || !written) return;
+      written = false;
+      setTileVersion(Date.now());
+    });
+    return () => {
+      detachDelivered();
+      detachPending();
+    };
+  }, [outbox]);
 
-        // Load latest GPS trace
-        const { data: traces, error: tracesError } = await supabase
-          .from('traces')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false })
-          .limit(1);
-
-        if (tracesError) throw tracesError;
-
-        if (traces && traces.length > 0 && traces[0].points) {
-          const points = traces[0].points as any;
-          const traceCoords = points.map((p: any) => [p.lng, p.lat] as [number, number]);
-          setGpsTrace(traceCoords);
-          setCurrentTraceId(traces[0].id);
-        }
-      } catch (error: any) {
-        toast.error('Failed to load your data');
-        console.error('Error loading user data:', error);
-      }
+  // Persist traces and segment visits while signed in
+  useEffect(() => {
+    outbox.setOwner(user?.id ?? null);
+    if (!user) return;
+
+    const detachPersistence = attachSupabasePersistence(trackingSession, user.id, outbox, uploadCursor);
+    // Checkpointing subscribes second so it sees the cursor after each save
+    const detachCheckpointing = attachCheckpointing(trackingSession, user.id, uploadCursor);
+    return () => {
+      detachCheckpointing();
+      detachPersistence();
     };
+  }, [user, trackingSession, outbox, uploadCursor]);
 
-    loadUserData();
+  useEffect(() => {
+    if (!user) return;
+    loadPreferences(user.id).then(setPreferences, (error) => {
+      toast.error('Failed to load your preferences');
+      console.error('Error loading preferences:', error);
+    });
   }, [user]);
 
-  // Tracking timer
-  useEffect(() => {
-    if (!isTracking) return;
+  const trackingSettings = useMemo(() => toTrackingSettings(preferences), [preferences]);
 
-    const interval = setInterval(() => {
-      setTrackingTime(prev => prev + 1);
-    }, 1000);
+  useEffect(() => {
+    trackingSession.configure(trackingSettings);
+  }, [trackingSession, trackingSettings]);
 
-    return () => clearInterval(interval);
-  }, [isTracking]);
+  useEffect(() => {
+    trackingSession.setPrivacyZones(privacyZones);
+  }, [trackingSession, privacyZones]);
 
-  // Handle location updates with real-time path drawing
-  const handleLocationUpdate = useCallback((lat: number, lng: number, accuracy: number = 0) => {
-    const now = Date.now();
-    const newLocation: LocationPoint = { lat, lng, timestamp: now };
-    
-    setCurrentLocation(newLocation);
-    setGpsAccuracy(accuracy); // Update GPS accuracy for HUD
-    
-    if (isTracking) {
-      // REAL-TIME PATH DRAWING: Add every GPS point immediately for continuous tracking
-      setGpsTrace(prev => {
-        const newTrace = [...prev, [lng, lat] as [number, number]];
-        
-        // PERFORMANCE: Save trace to database less frequently for battery efficiency
-        if (user && newTrace.length % 15 === 0) { // Save every 15 points for better real-time performance
-          saveTraceToDatabase(newTrace);
-        }
-        
-        return newTrace;
-      });
-      
-      setLocationHistory(prev => {
-        const updated = [...prev, newLocation];
-        
-        // Calculate speed and distance for every GPS update
-        if (prev.length > 0) {
-          const lastLocation = prev[prev.length - 1];
-          const timeDiff = (now - lastLocation.timestamp) / 1000; // seconds
-          const distance = calculateDistance(lastLocation.lat, lastLocation.lng, lat, lng);
-          
-          // Update speed and distance for every movement (no minimum threshold for real-time tracking)
-          if (distance > 0.5) { // Very small threshold to capture all meaningful movement
-            const speed = distance / timeDiff; // m/s
-            setCurrentSpeed(speed);
-            setTotalDistance(prevTotal => prevTotal + distance);
-          }
-        }
-        
-        // ACCURATE ROAD PAINTING: Create segments for significant movements only
-        if (updated.length > 1) {
-          const lastPoint = updated[updated.length - 1];
-          const distance = calculateDistance(lastPoint.lat, lastPoint.lng, lat, lng);
-          
-          // MOBILE-OPTIMIZED: Larger threshold to prevent excessive segments
-          if (distance > 20) { // 20m minimum for mobile battery efficiency
-            const segmentId = `${Math.round(lat * 1000)}_${Math.round(lng * 1000)}`;
-            
-            setPaintedSegments(prev => {
-              const existing = prev.find(seg => seg.id === segmentId);
-              if (existing) {
-                return prev.map(seg => 
-                  seg.id === segmentId 
-                    ? { ...seg, visitCount: seg.visitCount + 1 }
-                    : seg
-                );
-              } else {
-                const newSegment: PaintedSegment = {
-                  id: segmentId,
-                  geometry: {
-                    type: 'LineString',
-                    // COORDINATE ORDER FIX: GeoJSON uses [lng, lat] not [lat, lng]
-                    coordinates: [[lastPoint.lng, lastPoint.lat], [lng, lat]]
-                  },
-                  visitCount: 1
-                };
-                
-                setStreetsDiscovered(prev => prev + 1);
-                
-                // PERFORMANCE: Save to database with throttling
-                if (user) {
-                  saveSegmentToDatabase(newSegment, distance);
-                }
-                
-                return [...prev, newSegment];
-              }
-            });
-          }
-        }
-        
-        return updated;
-      });
-    }
-  }, [isTracking, user]);
+  // Offer to pick up a session the browser killed mid-run
+  useEffect(() => {
+    if (!user) return;
+    const { state } = trackingSession.getSnapshot();
+    if (state !== 'idle' && state !== 'stopped') return;
+    setInterruptedSession(loadCheckpoint(user.id));
+  }, [user, trackingSession]);
+
+  const loadViewportSegments = useCallback(async () => {
+    if (!user || !viewport.current) return;
+    const { bounds, zoom } = viewport.current;
+    trackingSession.loadSegments(await segmentTiles.load(bounds, zoom));
+  }, [user, trackingSession, segmentTiles]);
+
+  const handleViewportChange = useCallback((bounds: BBox, zoom: number) => {
+    viewport.current = { bounds, zoom };
+    loadViewportSegments();
+  }, [loadViewportSegments]);
+
+  // Load user data when authenticated, and again after past sessions are edited
+  const loadUserData = useCallback(async () => {
+    if (!user) return;
 
-  const saveTraceToDatabase = async (traceCoords: Array<[number, number]>) => {
     try {
-      const points = traceCoords.map(([lng, lat]) => ({ lat, lng, timestamp: Date.now() }));
-      
-      if (currentTraceId) {
-        // Update existing trace
-        await supabase.from('traces').update({
-          points: points as any,
-          updated_at: new Date().toISOString()
-        }).eq('id', currentTraceId);
+      // Totals cover all segments; the segments themselves load by viewport
+      const stats = await loadSegmentStats();
+
+      // Load latest GPS trace
+      const { data: traces, error: tracesError } = await supabase
+        .from('traces')
+        .select('id, snapped_geometry, processed')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (tracesError) throw tracesError;
+
+      let traceParts: TraceParts = [];
+      if (traces && traces.length > 0) {
+        // Points are reassembled server-side from the trace's chunks
+        const { data: points, error: pointsError } = await supabase
+          .rpc('get_trace_points', { p_trace_id: traces[0].id });
+
+        if (pointsError) throw pointsError;
+        traceParts = parseTracePoints(points);
+        setSnappedTrace(traces[0].processed ? parseSnappedGeometry(traces[0].snapped_geometry) : null);
       } else {
-        // Create new trace
-        const { data, error } = await supabase.from('traces').insert({
-          user_id: user?.id || '',
-          points: points as any
-        }).select().single();
-        
-        if (error) throw error;
-        if (data) setCurrentTraceId(data.id);
+        // The last trace may just have been deleted
+        setSnappedTrace(null);
       }
-    } catch (error) {
-      console.error('Failed to save trace:', error);
-    }
-  };
 
-  const saveSegmentToDatabase = async (segment: PaintedSegment, distance: number) => {
-    try {
-      await supabase.from('segments').insert({
-        user_id: user?.id || '',
-        osm_way_id: segment.id,
-        geometry: segment.geometry as any,
-        distance_meters: distance,
-        visit_count: segment.visitCount
+      // Segments may have changed anywhere, so every tile is fetched afresh
+      segmentTiles.clear();
+      setSegmentCount(stats.segmentCount);
+      setTileVersion(Date.now());
+      trackingSession.seed({
+        streetsDiscovered: stats.streetsDiscovered,
+        totalDistance: stats.totalDistance,
+        traceParts
       });
-    } catch (error) {
-      console.error('Failed to save segment:', error);
+      loadViewportSegments();
+    } catch (error: any) {
+      toast.error('Failed to load your data');
+      console.error('Error loading user data:', error);
     }
-  };
-
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI/180;
-    const φ2 = lat2 * Math.PI/180;
-    const Δφ = (lat2-lat1) * Math.PI/180;
-    const Δλ = (lng2-lng1) * Math.PI/180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  }, [user, trackingSession, segmentTiles, loadViewportSegments]);
 
-    return R * c;
-  };
+  useEffect(() => {
+    loadUserData();
+  }, [loadUserData]);
 
   const handleStartTracking = () => {
     if (!user) {
@@ -274,82 +255,270 @@ const StreetSweeperApp: React.FC = () => {
       return;
     }
     
-    if (!navigator.geolocation) {
+    if (!locationProvider.isSupported()) {
       toast.error('GPS not supported on this device');
       return;
     }
     
-    setIsTracking(true);
-    setTrackingTime(0);
-    setGpsTrace([]); // Start fresh GPS trace
-    setCurrentTraceId(null); // Reset trace ID for new session
+    trackingSession.start();
     toast.success('Started tracking your journey!');
   };
 
   const handlePauseTracking = () => {
-    setIsTracking(false);
+    trackingSession.pause();
     toast.info('Tracking paused');
   };
 
+  const handleResumeTracking = () => {
+    trackingSession.resume();
+    toast.success('Tracking resumed');
+  };
+
   const handleStopTracking = () => {
-    setIsTracking(false);
-    setTrackingTime(0);
-    setLocationHistory([]);
-    setCurrentSpeed(0);
+    // Final trace is saved by the persistence subscriber
+    trackingSession.stop();
     
-    // Save final trace to database
-    if (user && gpsTrace.length > 0) {
-      saveTraceToDatabase(gpsTrace);
+    toast.info('Tracking session saved');
+  };
+
+  const restoreInterruptedSession = (): boolean => {
+    const checkpoint = interruptedSession;
+    setInterruptedSession(null);
+    if (!checkpoint) return false;
+
+    // Only an idle session can take it over; the worker restores it as paused
+    const { state } = trackingSession.getSnapshot();
+    if (state !== 'idle' && state !== 'stopped') return false;
+
+    // Carry on the same server-side trace from where its uploads left off
+    Object.assign(uploadCursor, checkpoint.upload);
+    trackingSession.restore(checkpoint.session);
+    return true;
+  };
+
+  const handleResumeInterrupted = () => {
+    if (!restoreInterruptedSession()) return;
+
+    if (!locationProvider.isSupported()) {
+      toast.error('GPS not supported on this device');
+      return;
     }
-    
+
+    // Resuming opens a new trace part, so the gap isn't drawn as travelled
+    trackingSession.resume();
+    toast.success('Tracking resumed');
+  };
+
+  const handleFinishInterrupted = () => {
+    if (!restoreInterruptedSession()) return;
+
+    trackingSession.stop();
     toast.info('Tracking session saved');
   };
 
+  const handleMapClick = useCallback((point: LngLat) => {
+    setZoneDraft(draft => draft && addDraftPoint(draft, point));
+  }, []);
+
+  const handlePrivacyZonesChange = useCallback((zones: PrivacyZone[]) => {
+    setPreferences(previous => ({ ...previous, excluded_zones: zones }));
+  }, []);
+
+  const handleEditPrivacyZones = () => {
+    setShowSettings(false);
+    setShowPrivacy(true);
+  };
+
+  const handleColorModeChange = async (mode: ColorMode) => {
+    setPreferences(previous => ({ ...previous, color_mode: mode }));
+    if (!user) return;
+    try {
+      await updatePreferences(user.id, { color_mode: mode });
+    } catch (error) {
+      toast.error('Could not save your map colours');
+      console.error('Error saving color mode:', error);
+    }
+  };
+
+  const handleToggleDeveloperMode = () => {
+    if (developerMode) {
+      setLocationProvider(new BrowserLocationProvider());
+    }
+    setDeveloperMode(!developerMode);
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
+    trackingSession.reset();
+    segmentTiles.clear();
+    setSegmentCount(0);
+    setSnappedTrace(null);
+    setShowHistory(false);
+    setPreviewTrace(null);
+    setPreferences(DEFAULT_PREFERENCES);
+    setShowSettings(false);
+    setShowPrivacy(false);
+    setZoneDraft(null);
     setUser(null);
     setSession(null);
-    setPaintedSegments([]);
-    setStreetsDiscovered(0);
-    setTotalDistance(0);
-    setTrackingTime(0);
     toast.success('Signed out successfully');
   };
 
+  const paintedTiles: PaintedTiles | null = useMemo(
+    () => session && segmentCount >= VECTOR_TILE_MIN_SEGMENTS
+      ? { url: segmentTileUrl(tileVersion), accessToken: session.access_token }
+      : null,
+    [session, segmentCount, tileVersion]
+  );
+
   return (
     <div className="relative h-screen w-full overflow-hidden bg-background">
       {/* Full-screen Map */}
-      <MapLibre 
-        onLocationUpdate={handleLocationUpdate}
-        paintedSegments={paintedSegments}
-        gpsTrace={gpsTrace}
-        isTracking={isTracking}
+      <MapLibre
+        session={trackingSession}
+        locationProvider={locationProvider}
+        snappedTrace={trackingState === 'idle' ? snappedTrace : null}
+        previewTrace={showHistory ? previewTrace : null}
+        onViewportChange={handleViewportChange}
+        paintedTiles={paintedTiles}
+        colorMode={preferences.color_mode}
+        mapStyle={preferences.map_style}
+        privacyZones={privacyZones}
+        zoneDraft={zoneDraft}
+        onMapClick={handleMapClick}
       />
       
       {/* Mobile HUD */}
       <MobileHUD
-        isTracking={isTracking}
-        gpsAccuracy={gpsAccuracy}
-        distanceTraveled={totalDistance}
+        session={trackingSession}
+        pendingWrites={pendingWrites}
+        units={preferences.units}
         onStartTracking={handleStartTracking}
         onPauseTracking={handlePauseTracking}
+        onResumeTracking={handleResumeTracking}
         onStopTracking={handleStopTracking}
       />
 
       {/* Top-right controls - minimal for mobile */}
       {user && (
-        <div className="absolute top-4 right-4 z-10">
-          <Button 
-            variant="secondary" 
-            size="sm"
-            onClick={handleSignOut}
-            className="bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80"
-          >
-            <LogOut className="h-4 w-4" />
-          </Button>
+        <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+          <div className="flex gap-2">
+            {developerModeAvailable && (
+              <Button 
+                variant="secondary" 
+                size="sm"
+                onClick={handleToggleDeveloperMode}
+                className={cn(
+                  "bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80",
+                  developerMode && "text-cyan-400"
+                )}
+              >
+                <Bug className="h-4 w-4" />
+              </Button>
+            )}
+            <Button 
+              variant="secondary" 
+              size="sm"
+              onClick={() => setShowHistory(true)}
+              className="bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+            <Button 
+              variant="secondary" 
+              size="sm"
+              onClick={() => setShowPrivacy(true)}
+              className="bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80"
+            >
+              <Shield className="h-4 w-4" />
+            </Button>
+            <Button 
+              variant="secondary" 
+              size="sm"
+              onClick={() => setShowSettings(true)}
+              className="bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button 
+              variant="secondary" 
+              size="sm"
+              onClick={handleSignOut}
+              className="bg-black/70 backdrop-blur-sm border border-white/10 text-white hover:bg-black/80"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {developerMode && (
+            <DeveloperPanel
+              provider={locationProvider}
+              onProviderChange={setLocationProvider}
+              disabled={trackingState !== 'idle' && trackingState !== 'stopped'}
+            />
+          )}
         </div>
       )}
 
+      {/* Past sessions */}
+      {user && (
+        <TraceHistory
+          userId={user.id}
+          network={roadNetwork}
+          painting={trackingSettings.painting}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          disabled={(trackingState !== 'idle' && trackingState !== 'stopped') || pendingWrites > 0}
+          onPreview={setPreviewTrace}
+          onChanged={loadUserData}
+          units={preferences.units}
+        />
+      )}
+
+      {/* Map colours and what they mean */}
+      {user && (
+        <CoverageLegend
+          mode={preferences.color_mode}
+          onModeChange={handleColorModeChange}
+          className={cn(
+            "absolute left-4 z-10",
+            // Clear of the session stats the HUD adds above its controls
+            trackingState === 'idle' || trackingState === 'stopped' ? "bottom-28" : "bottom-44"
+          )}
+        />
+      )}
+
+      {/* Settings */}
+      {user && (
+        <SettingsSheet
+          userId={user.id}
+          preferences={preferences}
+          onPreferencesChange={setPreferences}
+          open={showSettings}
+          onOpenChange={setShowSettings}
+          onEditPrivacyZones={handleEditPrivacyZones}
+        />
+      )}
+
+      {/* Privacy zones */}
+      {user && (
+        <PrivacyZones
+          userId={user.id}
+          network={roadNetwork}
+          painting={trackingSettings.painting}
+          zones={privacyZones}
+          onZonesChange={handlePrivacyZonesChange}
+          open={showPrivacy}
+          onOpenChange={setShowPrivacy}
+          draft={zoneDraft}
+          onDraftChange={setZoneDraft}
+          currentLocation={currentLocation ? [currentLocation.lng, currentLocation.lat] : null}
+          disabled={(trackingState !== 'idle' && trackingState !== 'stopped') || pendingWrites > 0}
+          onChanged={loadUserData}
+          units={preferences.units}
+        />
+      )}
+
       {/* Welcome screen for unauthenticated users */}
       {!user && (
         <div className="absolute inset-0 z-10 flex items-center justify-center p-4">
@@ -372,6 +541,24 @@ const StreetSweeperApp: React.FC = () => {
         </div>
       )}
 
+      {/* Interrupted session recovery */}
+      <AlertDialog open={!!interruptedSession}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resume your last session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Street Sweeper was closed while tracking
+              {interruptedSession && ` (${interruptedSession.session.fixCount} points recorded)`}.
+              You can carry on where you left off or finish and save what was recorded.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleFinishInterrupted}>Finish and save</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResumeInterrupted}>Resume</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Auth Modal */}
       <AuthModal 
         isOpen={showAuthModal}
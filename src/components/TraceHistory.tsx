@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Combine, Scissors, SplitSquareHorizontal, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RoadNetwork } from '@/lib/roads/network';
+import type { PaintingOptions } from '@/lib/tracking/painting';
+import { countPoints, mergeTraces, sliceTrace, splitTrace, traceStart } from '@/lib/tracking/history';
+import {
+  deleteTrace,
+  listTraces,
+  loadTraceParts,
+  saveTraceEdits,
+  type TraceListItem
+} from '@/lib/tracking/supabase-history';
+import { toMultiLineString, type TraceParts } from '@/lib/tracking/trace';
+import { DEFAULT_UNITS, formatDistance, formatDuration, type UnitSystem } from '@/lib/units/format';
+
+interface TraceHistoryProps {
+  userId: string;
+  /** Edited traces are painted again over the road network */
+  network: RoadNetwork;
+  /** The user's painting settings, which edited traces are painted again with */
+  painting?: Partial<PaintingOptions>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Editing waits until no session is running and queued uploads are done */
+  disabled?: boolean;
+  /** Trace (or the edit's result) to show on the map while selected */
+  onPreview: (trace: GeoJSON.MultiLineString | null) => void;
+  /** Segments and stats changed server-side */
+  onChanged: () => void;
+  units?: UnitSystem;
+}
+
+type EditMode = 'view' | 'trim' | 'split';
+
+interface SelectedTrace {
+  item: TraceListItem;
+  parts: TraceParts;
+}
+
+// A trace needs two points to draw
+const MIN_POINTS = 2;
+
+const TraceHistory: React.FC<TraceHistoryProps> = ({
+  userId,
+  network,
+  painting,
+  open,
+  onOpenChange,
+  disabled = false,
+  onPreview,
+  onChanged,
+  units = DEFAULT_UNITS
+}) => {
+  const [traces, setTraces] = useState<TraceListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<SelectedTrace | null>(null);
+  const [mode, setMode] = useState<EditMode>('view');
+  const [trimRange, setTrimRange] = useState<[number, number]>([0, 0]);
+  const [splitAt, setSplitAt] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const pointCount = selected ? countPoints(selected.parts) : 0;
+
+  const pointTime = (index: number): string => {
+    const point = selected ? sliceTrace(selected.parts, index, index + 1)[0]?.[0] : null;
+    return point ? new Date(point.timestamp).toLocaleTimeString() : '';
+  };
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTraces(await listTraces(userId));
+    } catch (error) {
+      toast.error('Failed to load your sessions');
+      console.error('Error loading traces:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  // Nothing stays selected once the sheet is closed
+  useEffect(() => {
+    if (open) return;
+    setSelected(null);
+    setMode('view');
+  }, [open]);
+
+  // Show the trace, or what an edit would leave of it
+  useEffect(() => {
+    if (!selected) {
+      onPreview(null);
+      return;
+    }
+    const { parts } = selected;
+    if (mode === 'trim') {
+      onPreview(toMultiLineString(sliceTrace(parts, trimRange[0], trimRange[1] + 1)));
+    } else if (mode === 'split') {
+      onPreview(toMultiLineString(splitTrace(parts, splitAt)[0]));
+    } else {
+      onPreview(toMultiLineString(parts));
+    }
+  }, [selected, mode, trimRange, splitAt, onPreview]);
+
+  const handleSelect = async (item: TraceListItem) => {
+    if (selected?.item.id === item.id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const parts = await loadTraceParts(item.id);
+      const count = countPoints(parts);
+      setSelected({ item, parts });
+      setMode('view');
+      setTrimRange([0, Math.max(count - 1, 0)]);
+      setSplitAt(Math.floor(count / 2));
+    } catch (error) {
+      toast.error('Failed to load this session');
+      console.error('Error loading trace points:', error);
+    }
+  };
+
+  // Every edit reloads the list and the user's segments afterwards
+  const runEdit = async (edit: () => Promise<void>, message: string) => {
+    setBusy(true);
+    try {
+      await edit();
+      toast.success(message);
+      setSelected(null);
+      setMode('view');
+      onChanged();
+      await refresh();
+    } catch (error) {
+      toast.error('Could not update your sessions');
+      console.error('Error editing traces:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    setConfirmDelete(false);
+    runEdit(() => deleteTrace(selected.item.id), 'Session deleted');
+  };
+
+  const handleTrim = () => {
+    if (!selected) return;
+    const parts = sliceTrace(selected.parts, trimRange[0], trimRange[1] + 1);
+    runEdit(() => saveTraceEdits([{ traceId: selected.item.id, parts }], network, [], painting), 'Session trimmed');
+  };
+
+  const handleSplit = () => {
+    if (!selected) return;
+    const [before, after] = splitTrace(selected.parts, splitAt);
+    runEdit(
+      () => saveTraceEdits([
+        { traceId: selected.item.id, parts: before },
+        { traceId: crypto.randomUUID(), parts: after, createdAt: traceStart(after) ?? Date.now() }
+      ], network, [], painting),
+      'Session split in two'
+    );
+  };
+
+  // Merges into the previous (older) session, which keeps its place in the list
+  const previousTrace = selected ? traces[traces.findIndex(trace => trace.id === selected.item.id) + 1] : undefined;
+
+  const handleMerge = () => {
+    if (!selected || !previousTrace) return;
+    runEdit(async () => {
+      const previousParts = await loadTraceParts(previousTrace.id);
+      await saveTraceEdits(
+        [{ traceId: previousTrace.id, parts: mergeTraces(previousParts, selected.parts) }],
+        network,
+        [selected.item.id],
+        painting
+      );
+    }, 'Sessions merged');
+  };
+
+  const trimmedCount = trimRange[1] - trimRange[0] + 1;
+  const canEdit = !disabled && !busy;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="bg-black/90 backdrop-blur-md border-white/10 text-white flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-white">Your sessions</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            {disabled
+              ? 'Sessions can be edited once tracking has stopped and uploads have finished.'
+              : 'Delete, trim, split or merge a session. Your painted streets are rebuilt to match.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="space-y-2 px-2">
+            {!loading && traces.length === 0 && (
+              <p className="text-sm text-gray-400">No sessions recorded yet.</p>
+            )}
+
+            {traces.map(trace => {
+              const isSelected = selected?.item.id === trace.id;
+              const started = trace.summary?.startTime ?? trace.createdAt;
+              return (
+                <div
+                  key={trace.id}
+                  className={cn(
+                    "rounded-lg border border-white/10 bg-white/5",
+                    isSelected && "border-cyan-400/60"
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 text-left"
+                    onClick={() => handleSelect(trace)}
+                    disabled={busy}
+                  >
+                    <div className="text-sm font-medium">{new Date(started).toLocaleString()}</div>
+                    <div className="text-xs font-mono text-gray-400">
+                      {formatDistance(trace.summary?.distance ?? 0, units)} · {formatDuration(trace.summary?.duration ?? 0)}
+                    </div>
+                  </button>
+
+                  {isSelected && (
+                    <div className="space-y-3 border-t border-white/10 px-3 py-3">
+                      {mode === 'view' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button size="sm" variant="secondary" disabled={!canEdit || pointCount < MIN_POINTS} onClick={() => setMode('trim')}>
+                            <Scissors className="h-4 w-4 mr-1" />
+                            Trim
+                          </Button>
+                          <Button size="sm" variant="secondary" disabled={!canEdit || pointCount < MIN_POINTS * 2} onClick={() => setMode('split')}>
+                            <SplitSquareHorizontal className="h-4 w-4 mr-1" />
+                            Split
+                          </Button>
+                          <Button size="sm" variant="secondary" disabled={!canEdit || !previousTrace} onClick={handleMerge}>
+                            <Combine className="h-4 w-4 mr-1" />
+                            Merge previous
+                          </Button>
+                          <Button size="sm" variant="destructive" disabled={!canEdit} onClick={() => setConfirmDelete(true)}>
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      )}
+
+                      {mode === 'trim' && (
+                        <div className="space-y-3">
+                          <Slider
+                            min={0}
+                            max={pointCount - 1}
+                            step={1}
+                            minStepsBetweenThumbs={MIN_POINTS - 1}
+                            value={trimRange}
+                            onValueChange={([from, to]) => setTrimRange([from, to])}
+                          />
+                          <div className="flex justify-between text-xs font-mono text-gray-400">
+                            <span>{pointTime(trimRange[0])}</span>
+                            <span>{trimmedCount} of {pointCount} points</span>
+                            <span>{pointTime(trimRange[1])}</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setMode('view')} disabled={busy}>Cancel</Button>
+                            <Button size="sm" onClick={handleTrim} disabled={!canEdit || trimmedCount === pointCount}>
+                              Apply trim
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {mode === 'split' && (
+                        <div className="space-y-3">
+                          <Slider
+                            min={MIN_POINTS}
+                            max={pointCount - MIN_POINTS}
+                            step={1}
+                            value={[splitAt]}
+                            onValueChange={([at]) => setSplitAt(at)}
+                          />
+                          <div className="text-xs font-mono text-gray-400 text-center">
+                            Split at {pointTime(splitAt)} (the map shows the first half)
+                          </div>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setMode('view')} disabled={busy}>Cancel</Button>
+                            <Button size="sm" onClick={handleSplit} disabled={!canEdit}>
+                              Split here
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Its trace is removed, and streets only this session painted disappear from your map.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TraceHistory;
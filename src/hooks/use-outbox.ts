@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import type { Outbox } from "@/lib/sync/outbox"
+
+export function usePendingWrites(outbox: Outbox): number {
+  return React.useSyncExternalStore(outbox.subscribe, outbox.getPendingCount)
+}
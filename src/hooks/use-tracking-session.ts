@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import type { TrackingSessionApi, TrackingSnapshot } from "@/lib/tracking/session"
+
+export function useTrackingSession(session: TrackingSessionApi): TrackingSnapshot {
+  return React.useSyncExternalStore(session.subscribe, session.getSnapshot)
+}
@@ -34,11 +34,16 @@ export type Database = {
       }
       segments: {
         Row: {
+          completion: number | null
+          covered_edges: number[]
           created_at: string
           distance_meters: number | null
+          edge_count: number | null
           first_visited_at: string
+          geom: unknown
           geometry: Json
           id: string
+          last_session_id: string | null
           last_visited_at: string
           osm_way_id: string
           updated_at: string
@@ -46,11 +51,14 @@ export type Database = {
           visit_count: number
         }
         Insert: {
+          covered_edges?: number[]
           created_at?: string
           distance_meters?: number | null
+          edge_count?: number | null
           first_visited_at?: string
           geometry: Json
           id?: string
+          last_session_id?: string | null
           last_visited_at?: string
           osm_way_id: string
           updated_at?: string
@@ -58,11 +66,14 @@ export type Database = {
           visit_count?: number
         }
         Update: {
+          covered_edges?: number[]
           created_at?: string
           distance_meters?: number | null
+          edge_count?: number | null
           first_visited_at?: string
           geometry?: Json
           id?: string
+          last_session_id?: string | null
           last_visited_at?: string
           osm_way_id?: string
           updated_at?: string
@@ -71,12 +82,103 @@ export type Database = {
         }
         Relationships: []
       }
+      segment_visits: {
+        Row: {
+          covered_edges: number[]
+          created_at: string
+          direction: number
+          distance_meters: number
+          id: string
+          segment_id: string
+          trace_id: string | null
+          user_id: string
+          visited_at: string
+        }
+        Insert: {
+          covered_edges?: number[]
+          created_at?: string
+          direction?: number
+          distance_meters?: number
+          id?: string
+          segment_id: string
+          trace_id?: string | null
+          user_id: string
+          visited_at: string
+        }
+        Update: {
+          covered_edges?: number[]
+          created_at?: string
+          direction?: number
+          distance_meters?: number
+          id?: string
+          segment_id?: string
+          trace_id?: string | null
+          user_id?: string
+          visited_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "segment_visits_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "segment_visits_trace_id_fkey"
+            columns: ["trace_id"]
+            isOneToOne: false
+            referencedRelation: "traces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trace_chunks: {
+        Row: {
+          created_at: string
+          id: string
+          part: number
+          points: Json
+          sequence: number
+          trace_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          part?: number
+          points: Json
+          sequence: number
+          trace_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          part?: number
+          points?: Json
+          sequence?: number
+          trace_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trace_chunks_trace_id_fkey"
+            columns: ["trace_id"]
+            isOneToOne: false
+            referencedRelation: "traces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       traces: {
         Row: {
           created_at: string
           id: string
           points: Json
           processed: boolean
+          rejected_points: Json
+          snapped_geom: unknown
           snapped_geometry: Json | null
           summary: Json | null
           updated_at: string
@@ -85,8 +187,9 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
-          points: Json
+          points?: Json
           processed?: boolean
+          rejected_points?: Json
           snapped_geometry?: Json | null
           summary?: Json | null
           updated_at?: string
@@ -97,6 +200,7 @@ export type Database = {
           id?: string
           points?: Json
           processed?: boolean
+          rejected_points?: Json
           snapped_geometry?: Json | null
           summary?: Json | null
           updated_at?: string
@@ -134,12 +238,162 @@ export type Database = {
         }
         Relationships: []
       }
+      ways: {
+        Row: {
+          created_at: string
+          geometry: Json
+          highway: string
+          id: number
+          length_meters: number
+          max_lat: number
+          max_lng: number
+          min_lat: number
+          min_lng: number
+          name: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          geometry: Json
+          highway: string
+          id: number
+          length_meters: number
+          max_lat: number
+          max_lng: number
+          min_lat: number
+          min_lng: number
+          name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          geometry?: Json
+          highway?: string
+          id?: number
+          length_meters?: number
+          max_lat?: number
+          max_lng?: number
+          min_lat?: number
+          min_lng?: number
+          name?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_trace_edits: {
+        Args: { p_deleted?: string[]; p_edits: Json }
+        Returns: undefined
+      }
+      get_segment_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          segment_count: number
+          streets_discovered: number
+          total_distance: number
+        }[]
+      }
+      get_segment_tile: {
+        Args: { p_x: number; p_y: number; p_z: number }
+        Returns: string
+      }
+      get_segments_in_bbox: {
+        Args: {
+          p_max_lat: number
+          p_max_lng: number
+          p_min_lat: number
+          p_min_lng: number
+        }
+        Returns: {
+          activity_type: string | null
+          covered_edges: number[]
+          edge_count: number | null
+          first_visited_at: string | null
+          geometry: Json
+          highway: string | null
+          last_visited_at: string | null
+          name: string | null
+          osm_way_id: string
+          visit_count: number
+        }[]
+      }
+      get_trace_points: {
+        Args: { p_trace_id: string }
+        Returns: Json
+      }
+      get_traces_within_polygon: {
+        Args: { p_polygon: Json }
+        Returns: {
+          trace_id: string
+        }[]
+      }
+      get_ways_in_bbox: {
+        Args: {
+          p_max_lat: number
+          p_max_lng: number
+          p_min_lat: number
+          p_min_lng: number
+        }
+        Returns: {
+          created_at: string
+          geometry: Json
+          highway: string
+          id: number
+          length_meters: number
+          max_lat: number
+          max_lng: number
+          min_lat: number
+          min_lng: number
+          name: string | null
+          updated_at: string
+        }[]
+      }
+      recompute_segment_visits: {
+        Args: { p_segment_ids: string[] }
+        Returns: undefined
+      }
+      recompute_user_segments: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      record_segment_visit: {
+        Args: {
+          p_direction: number
+          p_distance_meters: number
+          p_edge_count: number | null
+          p_edges: number[]
+          p_geometry?: Json | null
+          p_osm_way_id: string
+          p_trace_id: string
+          p_user_id: string
+          p_visited_at: string
+        }
+        Returns: string | null
+      }
+      refresh_trace_summary: {
+        Args: { p_trace_id: string }
+        Returns: undefined
+      }
+      scrub_rejected_points: {
+        Args: { p_polygon: Json }
+        Returns: undefined
+      }
+      scrub_segments_within_polygon: {
+        Args: { p_polygon: Json }
+        Returns: undefined
+      }
+      trace_activity_type: {
+        Args: { p_summary: Json }
+        Returns: string | null
+      }
+      update_preferences: {
+        Args: { p_changes: Json; p_user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
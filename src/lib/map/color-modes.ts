@@ -0,0 +1,147 @@
+import type { ExpressionSpecification } from 'maplibre-gl';
+
+/**
+ * How painted roads are coloured, stored in `users.preferences.color_mode`.
+ * 'yellow' is the single-colour default the column was created with.
+ */
+export const COLOR_MODE_IDS = ['yellow', 'visits', 'recency', 'discovery', 'activity'] as const;
+
+export type ColorMode = typeof COLOR_MODE_IDS[number];
+
+export const COLOR_MODES: Array<{ mode: ColorMode; label: string }> = [
+  { mode: 'yellow', label: 'Single colour' },
+  { mode: 'visits', label: 'Visit count' },
+  { mode: 'recency', label: 'Last visited' },
+  { mode: 'discovery', label: 'Year discovered' },
+  { mode: 'activity', label: 'Activity' }
+];
+
+export const DEFAULT_COLOR_MODE: ColorMode = 'yellow';
+
+export const isColorMode = (value: unknown): value is ColorMode =>
+  COLOR_MODE_IDS.some(mode => mode === value);
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+}
+
+const SINGLE_COLOR = 'hsl(51, 100%, 50%)'; // ETS2 yellow
+const UNKNOWN_COLOR = 'hsl(0, 0%, 60%)';
+
+// Cool to hot, shared by the ordinal modes so they read the same way
+const RAMP = ['hsl(195, 100%, 50%)', 'hsl(140, 80%, 50%)', 'hsl(51, 100%, 50%)', 'hsl(25, 100%, 55%)', 'hsl(0, 90%, 55%)'];
+
+const VISIT_STEPS = [1, 2, 5, 10, 20];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Most recent first
+const RECENCY_STEPS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 365, label: 'Last 12 months' }
+];
+
+const DISCOVERY_YEARS = 4;
+
+const ACTIVITY_COLORS = {
+  walk: 'hsl(140, 80%, 50%)',
+  run: 'hsl(25, 100%, 55%)',
+  cycle: 'hsl(195, 100%, 50%)',
+  drive: 'hsl(280, 80%, 65%)'
+};
+
+const ACTIVITY_LABELS: Record<keyof typeof ACTIVITY_COLORS, string> = {
+  walk: 'Walk',
+  run: 'Run',
+  cycle: 'Cycle',
+  drive: 'Drive'
+};
+
+// Local-time start of each recent year, oldest first
+const discoveryYears = (now: number): Array<{ year: number; start: number }> => {
+  const current = new Date(now).getFullYear();
+  return Array.from({ length: DISCOVERY_YEARS - 1 }, (_, index) => {
+    const year = current - (DISCOVERY_YEARS - 2) + index;
+    return { year, start: new Date(year, 0, 1).getTime() };
+  });
+};
+
+/**
+ * `line-color` for painted roads in a mode. Features carry `visitCount`,
+ * `firstVisitedAt`, `lastVisitedAt` (ms) and `activity`, from GeoJSON or
+ * vector tiles alike; ages are measured from `now`.
+ */
+export const colorExpression = (mode: ColorMode, now: number): ExpressionSpecification | string => {
+  switch (mode) {
+    case 'yellow':
+      return SINGLE_COLOR;
+    case 'visits':
+      return [
+        'step',
+        ['coalesce', ['get', 'visitCount'], 1],
+        RAMP[0],
+        ...VISIT_STEPS.slice(1).flatMap((count, index) => [count, RAMP[index + 1]])
+      ] as ExpressionSpecification;
+    case 'recency':
+      // Older is cooler; segments without a visit time count as just visited
+      return [
+        'step',
+        ['-', now, ['coalesce', ['get', 'lastVisitedAt'], now]],
+        RAMP[RAMP.length - 1],
+        ...RECENCY_STEPS.flatMap(({ days }, index) => [days * DAY_MS, RAMP[RAMP.length - 2 - index]])
+      ] as ExpressionSpecification;
+    case 'discovery':
+      return [
+        'step',
+        ['coalesce', ['get', 'firstVisitedAt'], now],
+        RAMP[0],
+        ...discoveryYears(now).flatMap(({ start }, index) => [start, RAMP[index + 2]])
+      ] as ExpressionSpecification;
+    case 'activity':
+      return [
+        'match',
+        ['coalesce', ['get', 'activity'], ''],
+        'walk', ACTIVITY_COLORS.walk,
+        'run', ACTIVITY_COLORS.run,
+        'cycle', ACTIVITY_COLORS.cycle,
+        'drive', ACTIVITY_COLORS.drive,
+        UNKNOWN_COLOR
+      ];
+  }
+};
+
+/** What each colour means in a mode, in the order the legend lists them */
+export const legendFor = (mode: ColorMode, now: number): LegendEntry[] => {
+  switch (mode) {
+    case 'yellow':
+      return [{ color: SINGLE_COLOR, label: 'Painted' }];
+    case 'visits':
+      return VISIT_STEPS.map((count, index) => {
+        const next = VISIT_STEPS[index + 1];
+        const label = next === undefined ? `${count}+ visits` : next - 1 === count ? `${count} visit` : `${count}–${next - 1} visits`;
+        return { color: RAMP[index], label };
+      });
+    case 'recency':
+      return [
+        ...RECENCY_STEPS.map(({ label }, index) => ({ color: RAMP[RAMP.length - 1 - index], label })),
+        { color: RAMP[0], label: 'Over a year ago' }
+      ];
+    case 'discovery': {
+      const years = discoveryYears(now).reverse();
+      return [
+        ...years.map(({ year }, index) => ({ color: RAMP[years.length + 1 - index], label: String(year) })),
+        { color: RAMP[0], label: `Before ${years[years.length - 1].year}` }
+      ];
+    }
+    case 'activity':
+      return [
+        ...Object.entries(ACTIVITY_LABELS).map(([activity, label]) => ({
+          color: ACTIVITY_COLORS[activity as keyof typeof ACTIVITY_COLORS],
+          label
+        })),
+        { color: UNKNOWN_COLOR, label: 'Unknown' }
+      ];
+  }
+};
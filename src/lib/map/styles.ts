@@ -0,0 +1,38 @@
+import type { RasterSourceSpecification } from 'maplibre-gl';
+
+/** Base maps painted roads are drawn over, stored in `users.preferences.map_style` */
+export const MAP_STYLE_IDS = ['streets', 'dark', 'satellite'] as const;
+
+export type MapStyle = typeof MAP_STYLE_IDS[number];
+
+export const DEFAULT_MAP_STYLE: MapStyle = 'streets';
+
+export const MAP_STYLES: Record<MapStyle, { label: string; source: RasterSourceSpecification }> = {
+  streets: {
+    label: 'Streets',
+    source: {
+      type: 'raster',
+      tiles: ['https://tile.openstreetmap.org/{z}/{x}/{y}.png'],
+      tileSize: 256,
+      attribution: '© OpenStreetMap contributors'
+    }
+  },
+  dark: {
+    label: 'Dark',
+    source: {
+      type: 'raster',
+      tiles: ['a', 'b', 'c', 'd'].map(server => `https://${server}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png`),
+      tileSize: 256,
+      attribution: '© OpenStreetMap contributors © CARTO'
+    }
+  },
+  satellite: {
+    label: 'Satellite',
+    source: {
+      type: 'raster',
+      tiles: ['https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'],
+      tileSize: 256,
+      attribution: 'Tiles © Esri'
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import type { Json } from '@/integrations/supabase/types';
+import { COLOR_MODE_IDS, DEFAULT_COLOR_MODE } from '@/lib/map/color-modes';
+import { DEFAULT_MAP_STYLE, MAP_STYLE_IDS } from '@/lib/map/styles';
+import type { LngLat, PrivacyZone } from '@/lib/privacy/zones';
+import { DEFAULT_FILTER_OPTIONS } from '@/lib/tracking/kalman';
+import { DEFAULT_PAINTING_OPTIONS } from '@/lib/tracking/painting';
+import type { TrackingSettings } from '@/lib/tracking/session';
+import { DEFAULT_UNITS, UNIT_SYSTEMS } from '@/lib/units/format';
+
+const lngLatSchema = z.array(z.number().finite()).min(2).transform(([lng, lat]): LngLat => [lng, lat]);
+
+const privacyZoneSchema = z.object({
+  id: z.string(),
+  label: z.string().catch('Private area'),
+  shape: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('circle'), center: lngLatSchema, radius: z.number().positive() }),
+    z.object({ type: z.literal('polygon'), coordinates: z.array(lngLatSchema).min(3) })
+  ])
+});
+
+// Malformed zones are skipped rather than failing the rest
+const privacyZonesSchema = z.array(z.unknown()).transform((zones): PrivacyZone[] =>
+  zones.flatMap(zone => {
+    const parsed = privacyZoneSchema.safeParse(zone);
+    return parsed.success ? [parsed.data as PrivacyZone] : [];
+  })
+);
+
+/** What's kept in `users.preferences` */
+export const preferencesSchema = z.object({
+  units: z.enum(UNIT_SYSTEMS),
+  color_mode: z.enum(COLOR_MODE_IDS),
+  map_style: z.enum(MAP_STYLE_IDS),
+  /** Fixes reporting worse accuracy (m) are ignored */
+  accuracy_threshold: z.number().int()
+    .min(10, 'Accuracy threshold must be at least 10 m')
+    .max(150, 'Accuracy threshold can be at most 150 m'),
+  /** Ground covered (m) on a street before it's painted */
+  segment_threshold: z.number().int()
+    .min(5, 'Segment threshold must be at least 5 m')
+    .max(100, 'Segment threshold can be at most 100 m'),
+  auto_pause: z.boolean(),
+  excluded_zones: privacyZonesSchema
+});
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  units: DEFAULT_UNITS,
+  color_mode: DEFAULT_COLOR_MODE,
+  map_style: DEFAULT_MAP_STYLE,
+  accuracy_threshold: DEFAULT_FILTER_OPTIONS.maxAccuracy,
+  segment_threshold: DEFAULT_PAINTING_OPTIONS.minSegmentLength,
+  auto_pause: false,
+  excluded_zones: []
+};
+
+// Stored preferences predate most keys, so each falls back to its default on its own
+const storedPreferencesSchema = z.object({
+  units: preferencesSchema.shape.units.catch(DEFAULT_PREFERENCES.units),
+  color_mode: preferencesSchema.shape.color_mode.catch(DEFAULT_PREFERENCES.color_mode),
+  map_style: preferencesSchema.shape.map_style.catch(DEFAULT_PREFERENCES.map_style),
+  accuracy_threshold: preferencesSchema.shape.accuracy_threshold.catch(DEFAULT_PREFERENCES.accuracy_threshold),
+  segment_threshold: preferencesSchema.shape.segment_threshold.catch(DEFAULT_PREFERENCES.segment_threshold),
+  auto_pause: preferencesSchema.shape.auto_pause.catch(DEFAULT_PREFERENCES.auto_pause),
+  excluded_zones: preferencesSchema.shape.excluded_zones.catch(DEFAULT_PREFERENCES.excluded_zones)
+});
+
+/** The user's preferences, with defaults for anything missing or malformed */
+export const parsePreferences = (preferences: Json | null): Preferences => {
+  const parsed = storedPreferencesSchema.safeParse(preferences);
+  return parsed.success ? parsed.data : DEFAULT_PREFERENCES;
+};
+
+/** The parts of the preferences the tracking session applies */
+export const toTrackingSettings = (preferences: Preferences): TrackingSettings => ({
+  filter: { maxAccuracy: preferences.accuracy_threshold },
+  painting: { minSegmentLength: preferences.segment_threshold },
+  autoPause: { enabled: preferences.auto_pause }
+});
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { parsePreferences, type Preferences } from './preferences';
+
+// Null before the user has saved any
+const loadStoredPreferences = async (userId: string): Promise<Json | null> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('preferences')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.preferences ?? null;
+};
+
+/** The user's `users.preferences`, with defaults for anything unset */
+export const loadPreferences = async (userId: string): Promise<Preferences> =>
+  parsePreferences(await loadStoredPreferences(userId));
+
+/** Sets the given keys of `users.preferences`, keeping the rest; merged server-side so concurrent saves don't clash */
+export const updatePreferences = async (userId: string, changes: Partial<Preferences>): Promise<void> => {
+  const { error } = await supabase.rpc('update_preferences', { p_user_id: userId, p_changes: changes });
+  if (error) throw error;
+};
@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { updatePreferences } from '@/lib/preferences/supabase-preferences';
+import type { RoadNetwork } from '@/lib/roads/network';
+import type { PaintingOptions } from '@/lib/tracking/painting';
+import { loadTraceParts, saveTraceEdits, type TraceEdit } from '@/lib/tracking/supabase-history';
+import { clipTraceParts, zonePolygon, type PrivacyZone } from './zones';
+
+/** Replaces `excluded_zones`, keeping the rest of the user's preferences */
+export const savePrivacyZones = (userId: string, zones: PrivacyZone[]): Promise<void> =>
+  updatePreferences(userId, { excluded_zones: zones });
+
+/**
+ * Removes what's already stored inside a newly added zone: the points of
+ * every trace passing through it, along with what only those points painted,
+ * segments painted there without a trace to clip, and rejected fixes logged
+ * there. Traces left without points are deleted. Returns how many traces
+ * changed.
+ */
+export const scrubPrivacyZone = async (
+  zone: PrivacyZone,
+  network: RoadNetwork,
+  painting: Partial<PaintingOptions> = {}
+): Promise<number> => {
+  const polygon = zonePolygon(zone) as unknown as Json;
+
+  const { data, error } = await supabase.rpc('get_traces_within_polygon', { p_polygon: polygon });
+  if (error) throw error;
+
+  const edits: TraceEdit[] = [];
+  const deleted: string[] = [];
+  for (const { trace_id: traceId } of data ?? []) {
+    const parts = clipTraceParts(await loadTraceParts(traceId), [zone]);
+    if (parts.length === 0) {
+      deleted.push(traceId);
+    } else {
+      edits.push({ traceId, parts });
+    }
+  }
+
+  if (edits.length > 0 || deleted.length > 0) {
+    await saveTraceEdits(edits, network, deleted, painting);
+  }
+
+  const { error: segmentsError } = await supabase.rpc('scrub_segments_within_polygon', { p_polygon: polygon });
+  if (segmentsError) throw segmentsError;
+
+  const { error: scrubError } = await supabase.rpc('scrub_rejected_points', { p_polygon: polygon });
+  if (scrubError) throw scrubError;
+
+  return edits.length + deleted.length;
+};
@@ -0,0 +1,108 @@
+import { calculateDistance } from '@/lib/tracking/geo';
+import type { TraceParts } from '@/lib/tracking/trace';
+
+/** [lng, lat], like GeoJSON */
+export type LngLat = [number, number];
+
+export type PrivacyZoneShape =
+  | { type: 'circle'; center: LngLat; /** Meters */ radius: number }
+  /** Outer ring, not closed */
+  | { type: 'polygon'; coordinates: LngLat[] };
+
+/**
+ * An area, such as around home, where nothing is recorded. Stored in
+ * `users.preferences.excluded_zones`, so a plain JSON type rather than an
+ * interface.
+ */
+export type PrivacyZone = {
+  id: string;
+  label: string;
+  shape: PrivacyZoneShape;
+};
+
+export const DEFAULT_ZONE_RADIUS = 200;
+
+// Ray casting over [lng, lat]; fine for zones a few hundred meters across
+const insideRing = ({ lat, lng }: { lat: number; lng: number }, ring: LngLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInZone = (point: { lat: number; lng: number }, zone: PrivacyZone): boolean => {
+  const { shape } = zone;
+  if (shape.type === 'circle') {
+    return calculateDistance(point.lat, point.lng, shape.center[1], shape.center[0]) <= shape.radius;
+  }
+  return insideRing(point, shape.coordinates);
+};
+
+export const isInPrivacyZone = (point: { lat: number; lng: number }, zones: PrivacyZone[]): boolean =>
+  zones.some(zone => isInZone(point, zone));
+
+/** The trace without its points inside the zones; a part crossing a zone is split in two */
+export const clipTraceParts = (parts: TraceParts, zones: PrivacyZone[]): TraceParts => {
+  const clipped: TraceParts = [];
+  for (const part of parts) {
+    let current: TraceParts[number] = [];
+    for (const point of part) {
+      if (isInPrivacyZone(point, zones)) {
+        if (current.length > 0) clipped.push(current);
+        current = [];
+      } else {
+        current.push(point);
+      }
+    }
+    if (current.length > 0) clipped.push(current);
+  }
+  return clipped;
+};
+
+const METERS_PER_DEGREE = 111_320;
+
+/** The zone as a GeoJSON polygon; circles are approximated by `steps` sides */
+export const zonePolygon = ({ shape }: PrivacyZone, steps = 64): GeoJSON.Polygon => {
+  if (shape.type === 'polygon') {
+    return { type: 'Polygon', coordinates: [[...shape.coordinates, shape.coordinates[0]]] };
+  }
+
+  const [lng, lat] = shape.center;
+  const kx = METERS_PER_DEGREE * Math.cos(lat * Math.PI/180);
+  const ring: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i % steps) / steps * 2 * Math.PI;
+    ring.push([lng + (shape.radius * Math.cos(angle)) / kx, lat + (shape.radius * Math.sin(angle)) / METERS_PER_DEGREE]);
+  }
+  return { type: 'Polygon', coordinates: [ring] };
+};
+
+/** A zone being drawn on the map: a circle's center, or a polygon's corners so far */
+export interface ZoneDraft {
+  shape: PrivacyZoneShape['type'];
+  label: string;
+  points: LngLat[];
+  /** Meters, for circles */
+  radius: number;
+}
+
+/** A map tap while drawing: moves a circle's center, or adds a polygon corner */
+export const addDraftPoint = (draft: ZoneDraft, point: LngLat): ZoneDraft => ({
+  ...draft,
+  points: draft.shape === 'circle' ? [point] : [...draft.points, point]
+});
+
+/** The drawn zone, once it has enough points */
+export const draftZone = (draft: ZoneDraft): PrivacyZone | null => {
+  if (draft.shape === 'circle') {
+    if (draft.points.length === 0) return null;
+    return { id: crypto.randomUUID(), label: draft.label, shape: { type: 'circle', center: draft.points[0], radius: draft.radius } };
+  }
+  if (draft.points.length < 3) return null;
+  return { id: crypto.randomUUID(), label: draft.label, shape: { type: 'polygon', coordinates: draft.points } };
+};
@@ -0,0 +1,111 @@
+import { calculateDistance, projectOntoLine } from '@/lib/tracking/geo';
+import type { LocationPoint, PaintedSegment } from '@/lib/tracking/types';
+import type { RoadWay } from './types';
+
+/**
+ * Ways are split into sub-edges of roughly this length (m). Coverage is
+ * tracked per sub-edge, so walking 30 m into a long avenue only paints 30 m.
+ */
+export const SUB_EDGE_LENGTH = 25;
+
+/** Fixes further than this (m) from the way don't cover any of it */
+const MAX_COVERAGE_DISTANCE = 25;
+
+export const edgeCountOf = (length: number): number =>
+  Math.max(1, Math.ceil(length / SUB_EDGE_LENGTH));
+
+const edgeAt = (fraction: number, edgeCount: number): number =>
+  Math.min(Math.max(Math.floor(fraction * edgeCount), 0), edgeCount - 1);
+
+/** Sub-edges of `way` travelled by a stretch of consecutive points */
+export const coveredEdges = (way: RoadWay, points: LocationPoint[]): number[] => {
+  const edgeCount = edgeCountOf(way.length);
+  const fractions = points
+    .map(point => projectOntoLine(point, way.geometry.coordinates))
+    .filter(projection => projection.distance <= MAX_COVERAGE_DISTANCE && projection.length > 0)
+    .map(projection => projection.along / projection.length);
+
+  const edges = new Set<number>();
+  fractions.forEach((fraction, i) => {
+    // Everything between consecutive projections was travelled too
+    const previous = i > 0 ? fractions[i - 1] : fraction;
+    const from = edgeAt(Math.min(previous, fraction), edgeCount);
+    const to = edgeAt(Math.max(previous, fraction), edgeCount);
+    for (let edge = from; edge <= to; edge++) edges.add(edge);
+  });
+
+  return Array.from(edges).sort((a, b) => a - b);
+};
+
+/** 1 if the points travel along the way's geometry, -1 against it, 0 if it can't be told */
+export const travelDirection = (way: RoadWay, points: LocationPoint[]): number => {
+  if (points.length < 2) return 0;
+  const first = projectOntoLine(points[0], way.geometry.coordinates);
+  const last = projectOntoLine(points[points.length - 1], way.geometry.coordinates);
+  if (last.along === first.along) return 0;
+  return last.along > first.along ? 1 : -1;
+};
+
+/** Sorted union of two sets of sub-edge indices */
+export const mergeEdges = (a: number[], b: number[]): number[] =>
+  Array.from(new Set([...a, ...b])).sort((x, y) => x - y);
+
+/** 0..1, or null for segments painted before coverage was tracked */
+export const completionOf = (segment: PaintedSegment): number | null => {
+  if (!segment.edgeCount || !segment.coveredEdges) return null;
+  return Math.min(segment.coveredEdges.length / segment.edgeCount, 1);
+};
+
+// Point a given distance (m) along a polyline, with its cumulative lengths precomputed
+const pointAt = (coordinates: number[][], cumulative: number[], distance: number): number[] => {
+  const found = cumulative.findIndex(d => d >= distance);
+  // Rounding can put the end a hair past the last vertex
+  const i = found === -1 ? cumulative.length - 1 : Math.max(found, 1);
+  const span = cumulative[i] - cumulative[i - 1];
+  const t = span > 0 ? (distance - cumulative[i - 1]) / span : 0;
+  const [lng1, lat1] = coordinates[i - 1];
+  const [lng2, lat2] = coordinates[i];
+  return [lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t];
+};
+
+/**
+ * The travelled portions of a segment, one line per run of covered
+ * sub-edges. Segments without coverage are painted whole.
+ */
+export const coveredGeometry = (segment: PaintedSegment): GeoJSON.MultiLineString => {
+  const { coordinates } = segment.geometry;
+  if (!segment.edgeCount || !segment.coveredEdges) {
+    return { type: 'MultiLineString', coordinates: [coordinates] };
+  }
+
+  const cumulative = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lng1, lat1] = coordinates[i - 1];
+    const [lng2, lat2] = coordinates[i];
+    cumulative.push(cumulative[i - 1] + calculateDistance(lat1, lng1, lat2, lng2));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const edgeLength = total / segment.edgeCount;
+
+  // Group consecutive sub-edges into runs: [first, last]
+  const runs: Array<[number, number]> = [];
+  segment.coveredEdges.forEach(edge => {
+    const last = runs[runs.length - 1];
+    if (last && edge === last[1] + 1) {
+      last[1] = edge;
+    } else {
+      runs.push([edge, edge]);
+    }
+  });
+
+  return {
+    type: 'MultiLineString',
+    coordinates: runs.map(([first, last]) => {
+      const start = first * edgeLength;
+      const end = (last + 1) * edgeLength;
+      // Keep the way's own vertices in between, so runs follow its bends
+      const inner = coordinates.filter((_, i) => cumulative[i] > start && cumulative[i] < end);
+      return [pointAt(coordinates, cumulative, start), ...inner, pointAt(coordinates, cumulative, end)];
+    })
+  };
+};
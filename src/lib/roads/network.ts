@@ -0,0 +1,196 @@
+import { projectOntoLine } from '@/lib/tracking/geo';
+import type { TrackingSession } from '@/lib/tracking/session';
+import type { LocationPoint } from '@/lib/tracking/types';
+import type { BBox, RoadWay, WayCoverage, WayLoader, WayResolver } from './types';
+
+export interface RoadNetworkOptions {
+  /** Ways are fetched in square tiles of this size (degrees) */
+  tileSize: number;
+  /** Tiles around the current one to fetch ahead of time */
+  prefetchRadius: number;
+  /** Fixes further than this (m) from every way are off-road */
+  maxDistance: number;
+  /** A tile still loading after this long (ms) is given up on, like a failed one */
+  loadTimeout: number;
+  /** A failed tile is fetched again after this long (ms) */
+  retryDelay: number;
+}
+
+export const DEFAULT_ROAD_NETWORK_OPTIONS: RoadNetworkOptions = {
+  tileSize: 0.01,
+  prefetchRadius: 1,
+  maxDistance: 25,
+  loadTimeout: 10_000,
+  retryDelay: 60_000
+};
+
+export interface WayMatch {
+  way: RoadWay;
+  /** Distance (m) from the fix to the way */
+  distance: number;
+  /** Distance (m) along the way to the fix's projection */
+  along: number;
+}
+
+/**
+ * Client-side cache of the road network around the user. Ways are fetched
+ * tile by tile as the user moves, and fixes are resolved to the nearest way.
+ */
+export class RoadNetwork implements WayResolver {
+  private readonly loader: WayLoader;
+  private readonly options: RoadNetworkOptions;
+  private readonly ways = new Map<number, RoadWay>();
+  // Tile key -> ids of the ways whose bounds touch the tile
+  private readonly tiles = new Map<string, number[]>();
+  private readonly loading = new Map<string, Promise<void>>();
+  // Tile key -> when it last failed or timed out
+  private readonly failed = new Map<string, number>();
+
+  constructor(loader: WayLoader, options: Partial<RoadNetworkOptions> = {}) {
+    this.loader = loader;
+    this.options = { ...DEFAULT_ROAD_NETWORK_OPTIONS, ...options };
+  }
+
+  getWay(id: number): RoadWay | undefined {
+    return this.ways.get(id);
+  }
+
+  /** Fetch the tiles around a position that aren't cached or in flight */
+  ensureLoaded({ lat, lng }: { lat: number; lng: number }): Promise<void> {
+    const [row, col] = this.tileOf(lat, lng);
+    const radius = this.options.prefetchRadius;
+    const pending: Promise<void>[] = [];
+
+    for (let r = row - radius; r <= row + radius; r++) {
+      for (let c = col - radius; c <= col + radius; c++) {
+        pending.push(this.loadTile(r, c));
+      }
+    }
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * Starts loading the point's tiles when they aren't cached yet. A tile that
+   * failed or timed out counts as unmapped until a retry brings its ways in,
+   * so painting falls back to grid cells while offline.
+   */
+  coverageAt(point: LocationPoint): WayCoverage {
+    const [row, col] = this.tileOf(point.lat, point.lng);
+    const key = `${row}_${col}`;
+    if (!this.tiles.has(key)) {
+      this.ensureLoaded(point);
+      return this.failed.has(key) ? 'unmapped' : 'loading';
+    }
+    return this.candidates(point.lat, point.lng).length > 0 ? 'mapped' : 'unmapped';
+  }
+
+  /** Closest way within `maxDistance` of the point, among the cached tiles */
+  nearest(point: { lat: number; lng: number }, maxDistance = this.options.maxDistance): WayMatch | null {
+    let best: WayMatch | null = null;
+
+    for (const way of this.candidates(point.lat, point.lng)) {
+      const { distance, along } = projectOntoLine(point, way.geometry.coordinates);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { way, distance, along };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The way most of the points lie on. Ties go to the way the points are
+   * closest to on average, so parallel streets aren't confused.
+   */
+  resolve(points: LocationPoint[]): RoadWay | null {
+    const votes = new Map<number, { count: number; distance: number }>();
+
+    points.forEach(point => {
+      const match = this.nearest(point);
+      if (!match) return;
+      const vote = votes.get(match.way.id) ?? { count: 0, distance: 0 };
+      votes.set(match.way.id, { count: vote.count + 1, distance: vote.distance + match.distance });
+    });
+
+    let winner: { id: number; count: number; average: number } | null = null;
+    for (const [id, { count, distance }] of votes) {
+      const average = distance / count;
+      if (!winner || count > winner.count || (count === winner.count && average < winner.average)) {
+        winner = { id, count, average };
+      }
+    }
+
+    // Most of the stretch has to be on a road for it to count
+    if (!winner || winner.count * 2 < points.length) return null;
+    return this.ways.get(winner.id) ?? null;
+  }
+
+  clear(): void {
+    this.ways.clear();
+    this.tiles.clear();
+    this.loading.clear();
+    this.failed.clear();
+  }
+
+  private tileOf(lat: number, lng: number): [number, number] {
+    return [Math.floor(lat / this.options.tileSize), Math.floor(lng / this.options.tileSize)];
+  }
+
+  private loadTile(row: number, col: number): Promise<void> {
+    const key = `${row}_${col}`;
+    if (this.tiles.has(key)) return Promise.resolve();
+
+    const inFlight = this.loading.get(key);
+    if (inFlight) return inFlight;
+
+    const failedAt = this.failed.get(key);
+    if (failedAt !== undefined && Date.now() - failedAt < this.options.retryDelay) return Promise.resolve();
+
+    const size = this.options.tileSize;
+    const bbox: BBox = [col * size, row * size, (col + 1) * size, (row + 1) * size];
+
+    // A slow tile stops holding up painting, but its ways are still used if they arrive
+    const timeout = setTimeout(() => this.failed.set(key, Date.now()), this.options.loadTimeout);
+
+    const load = this.loader(bbox)
+      .then(ways => {
+        ways.forEach(way => this.ways.set(way.id, way));
+        this.tiles.set(key, ways.map(way => way.id));
+        this.failed.delete(key);
+      })
+      .catch(error => {
+        // Left uncached, so a later fix in this tile tries again after `retryDelay`
+        console.error('Failed to load road network tile:', key, error);
+        this.failed.set(key, Date.now());
+      })
+      .finally(() => {
+        clearTimeout(timeout);
+        this.loading.delete(key);
+      });
+
+    this.loading.set(key, load);
+    return load;
+  }
+
+  // Ways in the point's tile and its neighbours, so roads just across a
+  // tile boundary are still considered
+  private candidates(lat: number, lng: number): RoadWay[] {
+    const [row, col] = this.tileOf(lat, lng);
+    const ids = new Set<number>();
+
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        this.tiles.get(`${r}_${c}`)?.forEach(id => ids.add(id));
+      }
+    }
+    return Array.from(ids, id => this.ways.get(id)!);
+  }
+}
+
+/**
+ * Keeps the network loaded around the session's position while it runs.
+ * Returns the unsubscribe function.
+ */
+export const attachRoadNetwork = (session: TrackingSession, network: RoadNetwork): (() => void) =>
+  session.subscribe(event => {
+    if (event.type === 'fix') network.ensureLoaded(event.fix);
+  });
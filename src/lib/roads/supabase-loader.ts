@@ -0,0 +1,21 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { BBox, RoadWay, WayLoader } from './types';
+
+/** Fetches the ways intersecting a bounding box from the `ways` table */
+export const loadWaysFromSupabase: WayLoader = async ([minLng, minLat, maxLng, maxLat]: BBox): Promise<RoadWay[]> => {
+  const { data, error } = await supabase.rpc('get_ways_in_bbox', {
+    p_min_lng: minLng,
+    p_min_lat: minLat,
+    p_max_lng: maxLng,
+    p_max_lat: maxLat
+  });
+  if (error) throw error;
+
+  return (data ?? []).map(way => ({
+    id: way.id,
+    name: way.name,
+    highway: way.highway,
+    geometry: way.geometry as unknown as GeoJSON.LineString,
+    length: way.length_meters
+  }));
+};
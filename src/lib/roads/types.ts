@@ -0,0 +1,32 @@
+import type { LocationPoint } from '@/lib/tracking/types';
+
+/** A drivable/walkable OSM way from the `ways` table */
+export interface RoadWay {
+  /** OSM way id */
+  id: number;
+  name: string | null;
+  /** OSM highway class, e.g. residential, primary, footway */
+  highway: string;
+  geometry: GeoJSON.LineString;
+  /** Meters */
+  length: number;
+}
+
+/** [minLng, minLat, maxLng, maxLat] */
+export type BBox = [number, number, number, number];
+
+export type WayLoader = (bbox: BBox) => Promise<RoadWay[]>;
+
+/**
+ * What's known about the roads around a point: `loading` until its ways have
+ * been fetched, `unmapped` when none were imported there or they couldn't be
+ * fetched
+ */
+export type WayCoverage = 'loading' | 'unmapped' | 'mapped';
+
+/** Decides which way a stretch of consecutive fixes was travelled along */
+export interface WayResolver {
+  coverageAt(point: LocationPoint): WayCoverage;
+  /** null when the stretch isn't on any known road */
+  resolve(points: LocationPoint[]): RoadWay | null;
+}
@@ -0,0 +1,176 @@
+import type { OutboxStore } from './store';
+import { OutboxError, type OutboxEntry, type OutboxExecutor, type OutboxOperation } from './types';
+
+export interface OutboxOptions {
+  /** First retry delay (ms); doubles on every consecutive failure */
+  initialBackoff?: number;
+  maxBackoff?: number;
+}
+
+type OutboxListener = (pendingCount: number) => void;
+type DeliveredListener = (operation: OutboxOperation) => void;
+
+/**
+ * Durable, ordered write queue. Mutations are stored before they are sent,
+ * replayed in insertion order, and retried with exponential backoff until
+ * the server accepts them.
+ */
+export class Outbox {
+  private readonly store: OutboxStore;
+  private readonly execute: OutboxExecutor;
+  private readonly initialBackoff: number;
+  private readonly maxBackoff: number;
+  private readonly listeners = new Set<OutboxListener>();
+  private readonly deliveredListeners = new Set<DeliveredListener>();
+  private pendingCount = 0;
+  private owner: string | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private backoff: number;
+  // Store writes are chained so enqueue order is insertion order
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(store: OutboxStore, execute: OutboxExecutor, options: OutboxOptions = {}) {
+    this.store = store;
+    this.execute = execute;
+    this.initialBackoff = options.initialBackoff ?? 1000;
+    this.maxBackoff = options.maxBackoff ?? 60_000;
+    this.backoff = this.initialBackoff;
+  }
+
+  getPendingCount = (): number => this.pendingCount;
+
+  subscribe = (listener: OutboxListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Called with each operation the server accepts */
+  onDelivered = (listener: DeliveredListener): (() => void) => {
+    this.deliveredListeners.add(listener);
+    return () => {
+      this.deliveredListeners.delete(listener);
+    };
+  };
+
+  /** Begin replaying: now, and whenever the browser comes back online */
+  start(): void {
+    window.addEventListener('online', this.handleOnline);
+    this.refreshCount().then(() => this.flush(), this.logReadError);
+  }
+
+  dispose(): void {
+    window.removeEventListener('online', this.handleOnline);
+    this.clearRetry();
+  }
+
+  /** Only the signed-in user's operations are replayed */
+  setOwner(owner: string | null): void {
+    this.owner = owner;
+    this.refreshCount().then(() => this.flush(), this.logReadError);
+  }
+
+  /** Never rejects: a write that can't be stored is logged and dropped */
+  enqueue(owner: string, operation: OutboxOperation): Promise<void> {
+    const write = this.writes.then(async () => {
+      await this.store.add({ owner, operation, attempts: 0, createdAt: Date.now() });
+      if (owner === this.owner) this.setPendingCount(this.pendingCount + 1);
+    });
+    this.writes = write.catch(error => console.error('Failed to queue write:', error));
+    return this.writes.then(() => this.flush());
+  }
+
+  flush(): Promise<void> {
+    // Backing off: the retry timer (or coming back online) flushes next
+    if (this.retryTimer !== null) return Promise.resolve();
+
+    if (!this.flushing) {
+      this.flushing = this.drain().catch(error => {
+        // The store itself failed; try again later like a failed delivery
+        console.error('Failed to replay queued writes:', error);
+        this.scheduleRetry();
+      }).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private handleOnline = () => {
+    this.backoff = this.initialBackoff;
+    this.clearRetry();
+    this.flush();
+  };
+
+  private async drain(): Promise<void> {
+    if (!this.owner || !navigator.onLine) return;
+    await this.writes;
+
+    // Re-list after each pass to pick up entries queued while draining
+    for (;;) {
+      const entries = (await this.store.list()).filter(entry => entry.owner === this.owner);
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        const delivered = await this.deliver(entry);
+        if (!delivered) {
+          this.scheduleRetry();
+          return;
+        }
+      }
+    }
+
+    this.backoff = this.initialBackoff;
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<boolean> {
+    let accepted = false;
+    try {
+      await this.execute(entry.operation);
+      accepted = true;
+    } catch (error) {
+      if (error instanceof OutboxError && !error.retryable) {
+        console.error('Dropping rejected write:', entry.operation.kind, error);
+      } else {
+        await this.store.put({ ...entry, attempts: entry.attempts + 1 });
+        return false;
+      }
+    }
+
+    await this.store.remove(entry.seq);
+    if (accepted) this.deliveredListeners.forEach(listener => listener(entry.operation));
+    this.setPendingCount(Math.max(this.pendingCount - 1, 0));
+    return true;
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.backoff);
+    this.backoff = Math.min(this.backoff * 2, this.maxBackoff);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer === null) return;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private logReadError = (error: unknown) => {
+    console.error('Failed to read queued writes:', error);
+  };
+
+  private async refreshCount(): Promise<void> {
+    const entries = await this.store.list();
+    this.setPendingCount(entries.filter(entry => entry.owner === this.owner).length);
+  }
+
+  private setPendingCount(count: number): void {
+    this.pendingCount = count;
+    this.listeners.forEach(listener => listener(count));
+  }
+}
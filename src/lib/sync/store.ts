@@ -0,0 +1,125 @@
+import type { OutboxEntry } from './types';
+
+/** Durable FIFO backing the outbox */
+export interface OutboxStore {
+  add(entry: Omit<OutboxEntry, 'seq'>): Promise<OutboxEntry>;
+  list(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  remove(seq: number): Promise<void>;
+}
+
+const DB_NAME = 'street-sweeper';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export class IndexedDbOutboxStore implements OutboxStore {
+  private readonly db: Promise<IDBDatabase>;
+
+  constructor(db: Promise<IDBDatabase> = openDatabase()) {
+    this.db = db;
+  }
+
+  async add(entry: Omit<OutboxEntry, 'seq'>): Promise<OutboxEntry> {
+    const seq = await this.run('readwrite', store => store.add(entry));
+    return { ...entry, seq: seq as number };
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    // Keys are auto-incremented, so cursor order is insertion order
+    return this.run('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  async remove(seq: number): Promise<void> {
+    await this.run('readwrite', store => store.delete(seq));
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.db;
+    return request(action(db.transaction(STORE, mode).objectStore(STORE)));
+  }
+}
+
+/** Fallback when IndexedDB is unavailable (e.g. some private browsing modes) */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries: OutboxEntry[] = [];
+  private nextSeq = 1;
+
+  async add(entry: Omit<OutboxEntry, 'seq'>): Promise<OutboxEntry> {
+    const stored = { ...entry, seq: this.nextSeq++ };
+    this.entries.push(stored);
+    return stored;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return [...this.entries];
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries = this.entries.map(existing => existing.seq === entry.seq ? entry : existing);
+  }
+
+  async remove(seq: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.seq !== seq);
+  }
+}
+
+// Some private browsing modes expose indexedDB but fail to open it
+const openOutboxStore = async (): Promise<OutboxStore> => {
+  if (typeof indexedDB === 'undefined') return new MemoryOutboxStore();
+
+  const db = openDatabase();
+  try {
+    await db;
+  } catch (error) {
+    console.warn('IndexedDB unavailable; queued writes will not survive a reload:', error);
+    return new MemoryOutboxStore();
+  }
+  return new IndexedDbOutboxStore(db);
+};
+
+// Lets the outbox be created synchronously while the backing store is picked
+class DeferredOutboxStore implements OutboxStore {
+  private readonly store: Promise<OutboxStore>;
+
+  constructor(store: Promise<OutboxStore>) {
+    this.store = store;
+  }
+
+  async add(entry: Omit<OutboxEntry, 'seq'>): Promise<OutboxEntry> {
+    return (await this.store).add(entry);
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return (await this.store).list();
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    return (await this.store).put(entry);
+  }
+
+  async remove(seq: number): Promise<void> {
+    return (await this.store).remove(seq);
+  }
+}
+
+export const createOutboxStore = (): OutboxStore => new DeferredOutboxStore(openOutboxStore());
@@ -0,0 +1,51 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { OutboxError, type OutboxOperation } from './types';
+
+// Constraint (23xxx), syntax/permission (42xxx) and RLS violations won't fix themselves
+const isPermanent = (error: PostgrestError): boolean =>
+  /^(23|42)/.test(error.code ?? '') || error.code === 'PGRST301';
+
+const check = ({ error }: { error: PostgrestError | null }) => {
+  if (!error) return;
+  throw new OutboxError(error.message, !isPermanent(error));
+};
+
+/** Applies an outbox operation; every write is an idempotent upsert or merge */
+export const executeSupabaseOperation = async (operation: OutboxOperation): Promise<void> => {
+  switch (operation.kind) {
+    case 'create-trace':
+      check(await supabase.from('traces').upsert({
+        id: operation.traceId,
+        user_id: operation.userId
+      }, { onConflict: 'id', ignoreDuplicates: true }));
+      break;
+    case 'append-chunk':
+      check(await supabase.from('trace_chunks').upsert({
+        trace_id: operation.traceId,
+        user_id: operation.userId,
+        sequence: operation.sequence,
+        part: operation.part,
+        points: operation.points
+      }, { onConflict: 'trace_id,sequence', ignoreDuplicates: true }));
+      break;
+    case 'update-rejections':
+      check(await supabase.from('traces').update({
+        rejected_points: operation.rejectedPoints
+      }).eq('id', operation.traceId));
+      break;
+    case 'record-visit':
+      check(await supabase.rpc('record_segment_visit', {
+        p_user_id: operation.userId,
+        p_osm_way_id: operation.osmWayId,
+        p_trace_id: operation.traceId,
+        p_visited_at: new Date(operation.visitedAt).toISOString(),
+        p_direction: operation.direction,
+        p_distance_meters: operation.distanceMeters,
+        p_edge_count: operation.edgeCount,
+        p_edges: operation.coveredEdges,
+        p_geometry: operation.geometry
+      }));
+      break;
+  }
+};
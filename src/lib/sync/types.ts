@@ -0,0 +1,55 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * A pending server mutation. Every operation carries client-generated ids
+ * or sequence numbers so replaying it after a lost response is harmless.
+ */
+export type OutboxOperation =
+  | { kind: 'create-trace'; traceId: string; userId: string }
+  | {
+      kind: 'append-chunk';
+      traceId: string;
+      userId: string;
+      sequence: number;
+      part: number;
+      points: Json;
+    }
+  | { kind: 'update-rejections'; traceId: string; rejectedPoints: Json }
+  // A trace's visit to a segment; distance and coverage are cumulative for the visit
+  | {
+      kind: 'record-visit';
+      userId: string;
+      traceId: string;
+      osmWayId: string;
+      /** ms since epoch */
+      visitedAt: number;
+      direction: number;
+      distanceMeters: number;
+      edgeCount: number | null;
+      coveredEdges: number[];
+      geometry: Json;
+    };
+
+/** Whether an operation changes the user's painted segments */
+export const writesSegments = (operation: OutboxOperation): boolean =>
+  operation.kind === 'record-visit';
+
+export interface OutboxEntry {
+  /** Insertion order, assigned by the store */
+  seq: number;
+  /** Operations only replay while their owner is signed in */
+  owner: string;
+  operation: OutboxOperation;
+  attempts: number;
+  createdAt: number;
+}
+
+export type OutboxExecutor = (operation: OutboxOperation) => Promise<void>;
+
+/** Thrown by executors; non-retryable failures are dropped instead of blocking the queue */
+export class OutboxError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'OutboxError';
+  }
+}
@@ -0,0 +1,55 @@
+import { distanceBetween } from './geo';
+import type { LocationPoint } from './types';
+
+export interface AutoPauseOptions {
+  enabled: boolean;
+  /** Staying within this distance (m) of one spot counts as standing still */
+  radius: number;
+  /** Standing still this long (ms) pauses tracking */
+  delayMs: number;
+}
+
+export const DEFAULT_AUTO_PAUSE_OPTIONS: AutoPauseOptions = {
+  enabled: false,
+  radius: 25,
+  delayMs: 60_000
+};
+
+/**
+ * Notices when the user has stopped (at traffic lights, for a coffee...) so
+ * tracking can pause itself, and when they set off again from that spot.
+ */
+export class AutoPause {
+  private options: AutoPauseOptions;
+  // Where the user has been standing since
+  private anchor: LocationPoint | null = null;
+
+  constructor(options: Partial<AutoPauseOptions> = {}) {
+    this.options = { ...DEFAULT_AUTO_PAUSE_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<AutoPauseOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  reset(): void {
+    this.anchor = null;
+  }
+
+  /** Given the latest recorded position, whether the user has stood still long enough */
+  isStill(point: LocationPoint): boolean {
+    if (!this.options.enabled) return false;
+
+    if (!this.anchor || distanceBetween(this.anchor, point) > this.options.radius) {
+      this.anchor = point;
+      return false;
+    }
+    return point.timestamp - this.anchor.timestamp >= this.options.delayMs;
+  }
+
+  /** Whether a raw fix is clearly away from where the user stopped, allowing for its accuracy */
+  hasMoved(fix: LocationPoint): boolean {
+    if (!this.anchor) return false;
+    return distanceBetween(this.anchor, fix) > this.options.radius + (fix.accuracy ?? 0);
+  }
+}
@@ -0,0 +1,93 @@
+// Great-circle distance in meters (haversine)
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = lat1 * Math.PI/180;
+  const φ2 = lat2 * Math.PI/180;
+  const Δφ = (lat2-lat1) * Math.PI/180;
+  const Δλ = (lng2-lng1) * Math.PI/180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c;
+};
+
+export const distanceBetween = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => calculateDistance(a.lat, a.lng, b.lat, b.lng);
+
+// Initial bearing in degrees clockwise from north
+export const calculateBearing = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => {
+  const φ1 = a.lat * Math.PI/180;
+  const φ2 = b.lat * Math.PI/180;
+  const Δλ = (b.lng-a.lng) * Math.PI/180;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return (Math.atan2(y, x) * 180/Math.PI + 360) % 360;
+};
+
+// Smallest absolute difference between two bearings, 0..180
+export const bearingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+export interface LineProjection {
+  /** Distance (m) from the point to the closest point on the line */
+  distance: number;
+  /** Distance (m) along the line to that closest point */
+  along: number;
+  /** Length (m) of the whole line, in the same projection as `along` */
+  length: number;
+}
+
+const METERS_PER_DEGREE = 111_320;
+
+// Closest point on a GeoJSON [lng, lat] polyline. Uses a local flat-earth
+// projection around the point, which is accurate at street scale.
+export const projectOntoLine = (
+  point: { lat: number; lng: number },
+  coordinates: number[][]
+): LineProjection => {
+  const kx = METERS_PER_DEGREE * Math.cos(point.lat * Math.PI/180);
+  const ky = METERS_PER_DEGREE;
+  const toLocal = ([lng, lat]: number[]) => [(lng - point.lng) * kx, (lat - point.lat) * ky];
+
+  let best = { distance: Infinity, along: 0 };
+  let travelled = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [ax, ay] = toLocal(coordinates[i - 1]);
+    const [bx, by] = toLocal(coordinates[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const length = Math.sqrt(lengthSq);
+
+    // Parameter of the point's projection onto this piece, clamped to its ends
+    const t = lengthSq > 0 ? Math.min(Math.max(-(ax * dx + ay * dy) / lengthSq, 0), 1) : 0;
+    const distance = Math.hypot(ax + t * dx, ay + t * dy);
+
+    if (distance < best.distance) {
+      best = { distance, along: travelled + t * length };
+    }
+    travelled += length;
+  }
+
+  return { ...best, length: travelled };
+};
+
+// Length in meters of a GeoJSON [lng, lat] polyline
+export const lineLength = (coordinates: number[][]): number =>
+  coordinates.slice(1).reduce(
+    (sum, [lng, lat], i) => sum + calculateDistance(coordinates[i][1], coordinates[i][0], lat, lng),
+    0
+  );
@@ -0,0 +1,109 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { RoadNetwork } from '@/lib/roads/network';
+import type { WayResolver } from '@/lib/roads/types';
+import { distanceBetween } from './geo';
+import { PaintingEngine, type PaintingOptions } from './painting';
+import type { TraceParts } from './trace';
+import type { LocationPoint } from './types';
+import { extendVisit, startVisit, type SegmentVisit } from './visits';
+
+/** Stats kept in traces.summary, refreshed server-side whenever points change */
+export interface TraceSummary {
+  /** Meters, within parts only */
+  distance: number;
+  /** Seconds spent tracking, excluding pauses */
+  duration: number;
+  startTime: string | null;
+  endTime: string | null;
+  points: number;
+}
+
+export const parseTraceSummary = (summary: Json | null): TraceSummary | null => {
+  if (!summary || typeof summary !== 'object' || Array.isArray(summary)) return null;
+  const { distance, duration, start_time, end_time, points } = summary as Record<string, Json>;
+  return {
+    distance: typeof distance === 'number' ? distance : 0,
+    duration: typeof duration === 'number' ? duration : 0,
+    startTime: typeof start_time === 'string' ? start_time : null,
+    endTime: typeof end_time === 'string' ? end_time : null,
+    points: typeof points === 'number' ? points : 0
+  };
+};
+
+export const countPoints = (parts: TraceParts): number =>
+  parts.reduce((sum, part) => sum + part.length, 0);
+
+/**
+ * Points `from` (inclusive) to `to` (exclusive), keeping pause gaps between
+ * parts. Positions count points across all parts in recorded order.
+ */
+export const sliceTrace = (parts: TraceParts, from: number, to: number): TraceParts => {
+  const sliced: TraceParts = [];
+  let offset = 0;
+  for (const part of parts) {
+    const kept = part.slice(Math.max(from - offset, 0), Math.max(to - offset, 0));
+    if (kept.length > 0) sliced.push(kept);
+    offset += part.length;
+  }
+  return sliced;
+};
+
+/** The trace before and from point `at` */
+export const splitTrace = (parts: TraceParts, at: number): [TraceParts, TraceParts] =>
+  [sliceTrace(parts, 0, at), sliceTrace(parts, at, countPoints(parts))];
+
+/** Timestamp (ms) of the trace's first point */
+export const traceStart = (parts: TraceParts): number | null =>
+  parts.find(part => part.length > 0)?.[0].timestamp ?? null;
+
+/** Both traces in time order; their parts stay separate so the gap isn't bridged */
+export const mergeTraces = (a: TraceParts, b: TraceParts): TraceParts =>
+  (traceStart(a) ?? 0) <= (traceStart(b) ?? 0) ? [...a, ...b] : [...b, ...a];
+
+// Tiles are ~1 km across and neighbours are prefetched, so sampling every
+// few hundred meters loads every tile the trace crosses
+const NETWORK_SAMPLE_SPACING = 500;
+
+/** Load the road network under the whole trace */
+export const loadNetworkAlong = async (parts: TraceParts, network: RoadNetwork): Promise<void> => {
+  const loads: Promise<void>[] = [];
+  parts.forEach(part => {
+    let last: LocationPoint | null = null;
+    part.forEach(point => {
+      if (last && distanceBetween(last, point) < NETWORK_SAMPLE_SPACING) return;
+      loads.push(network.ensureLoaded(point));
+      last = point;
+    });
+  });
+  await Promise.all(loads);
+};
+
+/**
+ * Paint a stored trace again as a single session, one visit per segment.
+ * The road network must already be loaded along the trace.
+ */
+export const replayVisits = (
+  parts: TraceParts,
+  resolver: WayResolver,
+  options: Partial<PaintingOptions> = {}
+): SegmentVisit[] => {
+  const engine = new PaintingEngine(options, resolver);
+  const visits = new Map<string, SegmentVisit>();
+
+  parts.forEach(part => {
+    part.forEach(point => {
+      engine.addFix(point).pieces.forEach(piece => {
+        const visit = visits.get(piece.segment.id);
+        if (visit) {
+          extendVisit(visit, piece);
+        } else {
+          visits.set(piece.segment.id, startVisit(piece));
+        }
+      });
+    });
+    // Never paint across a pause
+    engine.breakChain();
+  });
+
+  return Array.from(visits.values());
+};
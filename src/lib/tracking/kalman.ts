@@ -0,0 +1,206 @@
+import type { LocationPoint } from './types';
+
+/** A fix as delivered by a location provider, before filtering */
+export type RawFix = LocationPoint;
+
+export type FilterRejection = 'accuracy' | 'innovation';
+
+export interface FilteredFix {
+  raw: RawFix;
+  /** Smoothed position; every other reported field is carried through */
+  point: LocationPoint;
+  /** 0..1, derived from the filter's position uncertainty */
+  confidence: number;
+  rejected: FilterRejection | null;
+}
+
+export interface PositionFilterOptions {
+  /** Fixes reporting worse accuracy (m) are rejected outright */
+  maxAccuracy: number;
+  /** Acceleration noise (m/s²) of the constant-velocity model */
+  processNoise: number;
+  /** Assumed 1σ error (m/s) of device-reported speed */
+  speedAccuracy: number;
+  /** Squared Mahalanobis distance above which a fix is an outlier (χ², 2 dof) */
+  gateThreshold: number;
+  /** After this many consecutive outliers the filter re-initialises on the next fix */
+  maxConsecutiveRejections: number;
+  /** Uncertainty (m) at which confidence reaches 0 */
+  confidenceRange: number;
+}
+
+export const DEFAULT_FILTER_OPTIONS: PositionFilterOptions = {
+  maxAccuracy: 150,
+  processNoise: 2,
+  speedAccuracy: 1.5,
+  gateThreshold: 13.8,
+  maxConsecutiveRejections: 3,
+  confidenceRange: 50
+};
+
+const METERS_PER_DEGREE = 111_320;
+const MIN_ACCURACY = 3;
+
+// One axis of a constant-velocity model: position, velocity and their covariance
+interface AxisState {
+  x: number;
+  v: number;
+  pxx: number;
+  pxv: number;
+  pvv: number;
+}
+
+const predictAxis = (s: AxisState, dt: number, q: number): AxisState => {
+  const dt2 = dt * dt;
+  const dt3 = dt2 * dt;
+  const dt4 = dt3 * dt;
+  return {
+    x: s.x + s.v * dt,
+    v: s.v,
+    pxx: s.pxx + 2 * dt * s.pxv + dt2 * s.pvv + (dt4 / 4) * q,
+    pxv: s.pxv + dt * s.pvv + (dt3 / 2) * q,
+    pvv: s.pvv + dt2 * q
+  };
+};
+
+const updatePosition = (s: AxisState, z: number, r: number): AxisState => {
+  const S = s.pxx + r;
+  const kx = s.pxx / S;
+  const kv = s.pxv / S;
+  const y = z - s.x;
+  return {
+    x: s.x + kx * y,
+    v: s.v + kv * y,
+    pxx: (1 - kx) * s.pxx,
+    pxv: (1 - kx) * s.pxv,
+    pvv: s.pvv - kv * s.pxv
+  };
+};
+
+const updateVelocity = (s: AxisState, z: number, r: number): AxisState => {
+  const S = s.pvv + r;
+  const kx = s.pxv / S;
+  const kv = s.pvv / S;
+  const y = z - s.v;
+  return {
+    x: s.x + kx * y,
+    v: s.v + kv * y,
+    pxx: s.pxx - kx * s.pxv,
+    pxv: (1 - kv) * s.pxv,
+    pvv: (1 - kv) * s.pvv
+  };
+};
+
+/**
+ * Constant-velocity Kalman filter over a local east/north plane. Fixes are
+ * weighted by their reported accuracy (and speed/heading when available);
+ * outliers are flagged rather than silently dropped.
+ */
+export class PositionFilter {
+  private options: PositionFilterOptions;
+  private origin: { lat: number; lng: number; cosLat: number } | null = null;
+  private east: AxisState | null = null;
+  private north: AxisState | null = null;
+  private lastTimestamp = 0;
+  private consecutiveRejections = 0;
+
+  constructor(options: Partial<PositionFilterOptions> = {}) {
+    this.options = { ...DEFAULT_FILTER_OPTIONS, ...options };
+  }
+
+  /** Change options mid-session; the filter's state is kept */
+  setOptions(options: Partial<PositionFilterOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  reset(): void {
+    this.origin = null;
+    this.east = null;
+    this.north = null;
+    this.lastTimestamp = 0;
+    this.consecutiveRejections = 0;
+  }
+
+  process(fix: RawFix): FilteredFix {
+    const accuracy = Math.max(fix.accuracy ?? this.options.maxAccuracy, MIN_ACCURACY);
+
+    if (accuracy > this.options.maxAccuracy) {
+      return this.reject(fix, 'accuracy');
+    }
+
+    if (!this.east || !this.north || this.consecutiveRejections >= this.options.maxConsecutiveRejections) {
+      this.initialise(fix, accuracy);
+      return this.accept(fix);
+    }
+
+    const dt = Math.max((fix.timestamp - this.lastTimestamp) / 1000, 0);
+    const q = this.options.processNoise ** 2;
+    const east = predictAxis(this.east, dt, q);
+    const north = predictAxis(this.north, dt, q);
+
+    const [ze, zn] = this.project(fix);
+    const r = accuracy * accuracy;
+    const mahalanobis = (ze - east.x) ** 2 / (east.pxx + r) + (zn - north.x) ** 2 / (north.pxx + r);
+
+    if (mahalanobis > this.options.gateThreshold) {
+      return this.reject(fix, 'innovation');
+    }
+
+    let nextEast = updatePosition(east, ze, r);
+    let nextNorth = updatePosition(north, zn, r);
+
+    if (fix.speed != null && fix.heading != null && !Number.isNaN(fix.heading)) {
+      const rv = this.options.speedAccuracy ** 2;
+      const heading = fix.heading * Math.PI / 180;
+      nextEast = updateVelocity(nextEast, fix.speed * Math.sin(heading), rv);
+      nextNorth = updateVelocity(nextNorth, fix.speed * Math.cos(heading), rv);
+    }
+
+    this.east = nextEast;
+    this.north = nextNorth;
+    this.lastTimestamp = fix.timestamp;
+    this.consecutiveRejections = 0;
+    return this.accept(fix);
+  }
+
+  private initialise(fix: RawFix, accuracy: number): void {
+    this.origin = { lat: fix.lat, lng: fix.lng, cosLat: Math.cos(fix.lat * Math.PI / 180) };
+    const variance = accuracy * accuracy;
+    const speedVariance = 10 ** 2; // Unknown initial velocity
+    this.east = { x: 0, v: 0, pxx: variance, pxv: 0, pvv: speedVariance };
+    this.north = { x: 0, v: 0, pxx: variance, pxv: 0, pvv: speedVariance };
+    this.lastTimestamp = fix.timestamp;
+    this.consecutiveRejections = 0;
+  }
+
+  private project(fix: LocationPoint): [number, number] {
+    const { lat, lng, cosLat } = this.origin!;
+    return [
+      (fix.lng - lng) * METERS_PER_DEGREE * cosLat,
+      (fix.lat - lat) * METERS_PER_DEGREE
+    ];
+  }
+
+  private accept(raw: RawFix): FilteredFix {
+    const { lat, lng, cosLat } = this.origin!;
+    const sigma = Math.sqrt((this.east!.pxx + this.north!.pxx) / 2);
+    const confidence = Math.max(0, Math.min(1, 1 - sigma / this.options.confidenceRange));
+
+    return {
+      raw,
+      point: {
+        ...raw,
+        lat: lat + this.north!.x / METERS_PER_DEGREE,
+        lng: lng + this.east!.x / (METERS_PER_DEGREE * cosLat),
+        confidence
+      },
+      confidence,
+      rejected: null
+    };
+  }
+
+  private reject(raw: RawFix, reason: FilterRejection): FilteredFix {
+    this.consecutiveRejections += 1;
+    return { raw, point: { ...raw, confidence: 0 }, confidence: 0, rejected: reason };
+  }
+}
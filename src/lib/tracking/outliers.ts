@@ -0,0 +1,170 @@
+import { bearingDifference, calculateBearing, distanceBetween } from './geo';
+import type { RawFix } from './kalman';
+
+export type OutlierReason = 'speed' | 'acceleration' | 'heading' | 'unconfirmed';
+
+export interface OutlierMetrics {
+  /** Implied speed (m/s) from the reference fix */
+  speed: number;
+  /** Implied acceleration (m/s²), when the reference has a known speed */
+  acceleration: number | null;
+  /** Change of course (degrees), when the reference has a known bearing */
+  headingChange: number | null;
+}
+
+export type OutlierVerdict =
+  | { fix: RawFix; accepted: true; confirmed: boolean }
+  | { fix: RawFix; accepted: false; reason: OutlierReason; metrics: OutlierMetrics | null };
+
+export interface OutlierOptions {
+  /** Implied speeds above this (m/s) are suspicious */
+  maxSpeed: number;
+  /** Implied accelerations above this (m/s²) are suspicious */
+  maxAcceleration: number;
+  /** Course reversals sharper than this (degrees) are suspicious... */
+  maxHeadingChange: number;
+  /** ...but only above this speed (m/s); walkers turn around all the time */
+  headingSpeedFloor: number;
+  /** Hops shorter than this (m) are GPS noise and never judged */
+  minDisplacement: number;
+  /** Consistent follow-up fixes needed before a held fix is accepted */
+  confirmations: number;
+}
+
+export const DEFAULT_OUTLIER_OPTIONS: OutlierOptions = {
+  maxSpeed: 70,
+  maxAcceleration: 10,
+  maxHeadingChange: 150,
+  headingSpeedFloor: 8,
+  minDisplacement: 15,
+  confirmations: 2
+};
+
+interface Motion {
+  fix: RawFix;
+  speed: number | null;
+  bearing: number | null;
+}
+
+interface HeldFix {
+  motion: Motion;
+  reason: OutlierReason;
+  metrics: OutlierMetrics;
+}
+
+/**
+ * Judges each fix against its accepted neighbours. Suspicious fixes are held
+ * back and only released as accepted once enough later fixes agree with them;
+ * otherwise they are rejected with the reason and metrics that condemned them.
+ */
+export class OutlierDetector {
+  private readonly options: OutlierOptions;
+  private anchor: Motion | null = null;
+  private held: HeldFix[] = [];
+
+  constructor(options: Partial<OutlierOptions> = {}) {
+    this.options = { ...DEFAULT_OUTLIER_OPTIONS, ...options };
+  }
+
+  push(fix: RawFix): OutlierVerdict[] {
+    if (!this.anchor) {
+      this.anchor = { fix, speed: null, bearing: null };
+      return [{ fix, accepted: true, confirmed: false }];
+    }
+
+    const fromAnchor = this.assess(this.anchor, fix);
+
+    if (this.held.length === 0) {
+      if (!fromAnchor.reason) {
+        this.anchor = fromAnchor.motion;
+        return [{ fix, accepted: true, confirmed: false }];
+      }
+      this.held = [{ motion: fromAnchor.motion, reason: fromAnchor.reason, metrics: fromAnchor.metrics }];
+      return [];
+    }
+
+    // Back on the accepted track: everything held was a spike
+    if (!fromAnchor.reason) {
+      const verdicts = this.rejectHeld();
+      this.anchor = fromAnchor.motion;
+      return [...verdicts, { fix, accepted: true, confirmed: false }];
+    }
+
+    const tail = this.held[this.held.length - 1].motion;
+    const fromTail = this.assess(tail, fix);
+
+    // Agrees with the held fixes: they may have been a genuine jump
+    if (!fromTail.reason) {
+      this.held.push({ motion: fromTail.motion, reason: fromAnchor.reason, metrics: fromAnchor.metrics });
+      if (this.held.length <= this.options.confirmations) return [];
+
+      const verdicts: OutlierVerdict[] = this.held.map(({ motion }) => ({
+        fix: motion.fix,
+        accepted: true,
+        confirmed: true
+      }));
+      this.anchor = fromTail.motion;
+      this.held = [];
+      return verdicts;
+    }
+
+    // Agrees with nothing: drop the held fixes and hold this one instead
+    const verdicts = this.rejectHeld();
+    this.held = [{ motion: fromAnchor.motion, reason: fromAnchor.reason, metrics: fromAnchor.metrics }];
+    return verdicts;
+  }
+
+  /** Reject anything still awaiting confirmation (e.g. when tracking pauses) */
+  flush(): OutlierVerdict[] {
+    return this.rejectHeld('unconfirmed');
+  }
+
+  reset(): void {
+    this.anchor = null;
+    this.held = [];
+  }
+
+  private rejectHeld(override?: OutlierReason): OutlierVerdict[] {
+    const verdicts: OutlierVerdict[] = this.held.map(({ motion, reason, metrics }) => ({
+      fix: motion.fix,
+      accepted: false,
+      reason: override ?? reason,
+      metrics
+    }));
+    this.held = [];
+    return verdicts;
+  }
+
+  private assess(from: Motion, fix: RawFix): { motion: Motion; reason: OutlierReason | null; metrics: OutlierMetrics } {
+    const distance = distanceBetween(from.fix, fix);
+    const dt = (fix.timestamp - from.fix.timestamp) / 1000;
+    const speed = dt > 0 ? distance / dt : distance > 0 ? Infinity : 0;
+
+    if (distance < this.options.minDisplacement) {
+      // Too short to tell direction; keep the previous course
+      const motion = { fix, speed, bearing: from.bearing };
+      return { motion, reason: null, metrics: { speed, acceleration: null, headingChange: null } };
+    }
+
+    const bearing = calculateBearing(from.fix, fix);
+    const acceleration = from.speed !== null && dt > 0 ? Math.abs(speed - from.speed) / dt : null;
+    const headingChange = from.bearing !== null ? bearingDifference(from.bearing, bearing) : null;
+    const metrics = { speed, acceleration, headingChange };
+    const motion = { fix, speed, bearing };
+
+    let reason: OutlierReason | null = null;
+    if (speed > this.options.maxSpeed) {
+      reason = 'speed';
+    } else if (acceleration !== null && acceleration > this.options.maxAcceleration) {
+      reason = 'acceleration';
+    } else if (
+      headingChange !== null &&
+      headingChange > this.options.maxHeadingChange &&
+      speed > this.options.headingSpeedFloor
+    ) {
+      reason = 'heading';
+    }
+
+    return { motion, reason, metrics };
+  }
+}
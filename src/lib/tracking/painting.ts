@@ -0,0 +1,253 @@
+import { coveredEdges, edgeCountOf, mergeEdges, travelDirection } from '@/lib/roads/coverage';
+import type { WayResolver } from '@/lib/roads/types';
+import { distanceBetween } from './geo';
+import type { LocationPoint, PaintedSegment } from './types';
+
+export interface PaintingOptions {
+  /** Ground covered (m) before the current chain is emitted as a painted piece */
+  minSegmentLength: number;
+  /** Hops shorter than this (m) are treated as standing still and ignored */
+  minStepLength: number;
+  /** A time gap (ms) longer than this breaks the chain instead of bridging it */
+  maxGapMs: number;
+  /** A single hop longer than this (m) breaks the chain instead of painting it */
+  maxJumpLength: number;
+  /** Fixes the position filter is less confident about are not painted */
+  minConfidence: number;
+  /** A chain held for the road network longer than this (ms) is painted by grid cell */
+  maxHoldMs: number;
+}
+
+export const DEFAULT_PAINTING_OPTIONS: PaintingOptions = {
+  minSegmentLength: 20,
+  minStepLength: 0.5,
+  maxGapMs: 60_000,
+  maxJumpLength: 250,
+  minConfidence: 0.3,
+  maxHoldMs: 15_000
+};
+
+export interface PaintedPiece {
+  segment: PaintedSegment;
+  /** Length (m) of the polyline that produced this piece */
+  length: number;
+  /** True when the piece created a segment rather than revisiting one */
+  isNew: boolean;
+  /** True for the first piece on this segment since `beginSession` */
+  firstVisit: boolean;
+  /** Sub-edges of the way this piece travelled along */
+  coveredEdges: number[];
+  /** 1 along the way's geometry, -1 against it, 0 unknown */
+  direction: number;
+  /** Timestamp (ms) of the piece's first fix */
+  startedAt: number;
+}
+
+// Segments painted before ways were resolved are keyed by grid cell
+export const isWaySegmentId = (id: string): boolean => /^\d+$/.test(id);
+
+export interface PaintStep {
+  /** Distance (m) added to the chain by this fix, 0 if it was ignored or broke the chain */
+  distance: number;
+  /** Time (ms) spent covering that distance */
+  duration: number;
+  pieces: PaintedPiece[];
+}
+
+// Fallback identity without a road network, or where it has no ways: ~100m grid cell of the piece's end point
+export const segmentKey = (lat: number, lng: number): string =>
+  `${Math.round(lat * 1000)}_${Math.round(lng * 1000)}`;
+
+/**
+ * Chains consecutive accepted fixes into continuous polylines and cuts them
+ * into painted pieces once enough ground has been covered. With a resolver,
+ * each piece is attributed to the OSM way it was travelled along and pieces
+ * off the road network aren't painted; where no ways were imported, pieces
+ * fall back to grid cells. Pure and deterministic: the same fix
+ * sequence (and road network) always yields the same pieces.
+ */
+export class PaintingEngine {
+  private options: PaintingOptions;
+  private readonly resolver: WayResolver | null;
+  private readonly segments = new Map<string, PaintedSegment>();
+  private chain: LocationPoint[] = [];
+  private chainLength = 0;
+  // Segments painted since the session began; each counts one visit per session
+  private visited = new Set<string>();
+
+  constructor(options: Partial<PaintingOptions> = {}, resolver: WayResolver | null = null) {
+    this.options = { ...DEFAULT_PAINTING_OPTIONS, ...options };
+    this.resolver = resolver;
+  }
+
+  /** Change options mid-session; the open chain is kept */
+  setOptions(options: Partial<PaintingOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Load previously painted segments so revisits are counted, not re-created */
+  seed(segments: PaintedSegment[]): void {
+    segments.forEach(segment => this.segments.set(segment.id, segment));
+  }
+
+  /** Add segments fetched later on, keeping anything painted on them since */
+  merge(segments: PaintedSegment[]): void {
+    segments.forEach(segment => {
+      const existing = this.segments.get(segment.id);
+      if (!existing) {
+        this.segments.set(segment.id, segment);
+        return;
+      }
+      this.segments.set(segment.id, {
+        ...segment,
+        visitCount: Math.max(existing.visitCount, segment.visitCount),
+        lastVisitedAt: Math.max(existing.lastVisitedAt ?? 0, segment.lastVisitedAt ?? 0) || undefined,
+        coveredEdges: existing.coveredEdges && segment.coveredEdges
+          ? mergeEdges(existing.coveredEdges, segment.coveredEdges)
+          : segment.coveredEdges ?? existing.coveredEdges
+      });
+    });
+  }
+
+  addFix(fix: LocationPoint): PaintStep {
+    if ((fix.confidence ?? 1) < this.options.minConfidence) {
+      return { distance: 0, duration: 0, pieces: [] };
+    }
+
+    const last = this.chain[this.chain.length - 1];
+
+    if (!last) {
+      this.chain = [fix];
+      return { distance: 0, duration: 0, pieces: [] };
+    }
+
+    const distance = distanceBetween(last, fix);
+    const gap = fix.timestamp - last.timestamp;
+
+    if (gap > this.options.maxGapMs || distance > this.options.maxJumpLength) {
+      // Never paint across a gap we didn't actually travel
+      this.breakChain();
+      this.chain = [fix];
+      return { distance: 0, duration: 0, pieces: [] };
+    }
+
+    if (distance < this.options.minStepLength) {
+      return { distance: 0, duration: 0, pieces: [] };
+    }
+
+    this.chain.push(fix);
+    this.chainLength += distance;
+
+    if (this.chainLength < this.options.minSegmentLength) {
+      return { distance, duration: gap, pieces: [] };
+    }
+
+    // ROAD NETWORK: Entering a new area, the chain is held until its ways arrive, but not indefinitely
+    if (this.resolver?.coverageAt(fix) === 'loading' && fix.timestamp - this.chain[0].timestamp < this.options.maxHoldMs) {
+      return { distance, duration: gap, pieces: [] };
+    }
+
+    const piece = this.emit();
+    return { distance, duration: gap, pieces: piece ? [piece] : [] };
+  }
+
+  /** Drop the open chain so the next fix starts a new polyline */
+  breakChain(): void {
+    this.chain = [];
+    this.chainLength = 0;
+  }
+
+  /** Start counting visits afresh, e.g. when a new tracking session starts */
+  beginSession(): void {
+    this.breakChain();
+    this.visited = new Set();
+  }
+
+  reset(): void {
+    this.beginSession();
+    this.segments.clear();
+  }
+
+  getSegments(): PaintedSegment[] {
+    return Array.from(this.segments.values());
+  }
+
+  private emit(): PaintedPiece | null {
+    const start = this.chain[0];
+    const end = this.chain[this.chain.length - 1];
+    const length = this.chainLength;
+    const identified = this.identify();
+
+    // Next piece continues from where this one ended
+    this.chain = [end];
+    this.chainLength = 0;
+
+    // Off the road network (parks, car parks...): nothing to paint
+    if (!identified) return null;
+    const { segment: candidate, direction } = identified;
+
+    const existing = this.segments.get(candidate.id);
+    const firstVisit = !this.visited.has(candidate.id);
+
+    let segment: PaintedSegment;
+    if (existing) {
+      segment = {
+        ...existing,
+        visitCount: firstVisit ? existing.visitCount + 1 : existing.visitCount,
+        firstVisitedAt: existing.firstVisitedAt ?? start.timestamp,
+        lastVisitedAt: end.timestamp,
+        edgeCount: existing.edgeCount ?? candidate.edgeCount,
+        coveredEdges: candidate.coveredEdges
+          ? mergeEdges(existing.coveredEdges ?? [], candidate.coveredEdges)
+          : existing.coveredEdges
+      };
+    } else {
+      segment = { ...candidate, firstVisitedAt: start.timestamp, lastVisitedAt: end.timestamp };
+    }
+    this.segments.set(segment.id, segment);
+    this.visited.add(segment.id);
+
+    return {
+      segment,
+      length,
+      isNew: !existing,
+      firstVisit,
+      coveredEdges: candidate.coveredEdges ?? [],
+      direction,
+      startedAt: start.timestamp
+    };
+  }
+
+  private identify(): { segment: PaintedSegment; direction: number } | null {
+    const end = this.chain[this.chain.length - 1];
+
+    // Areas with no imported ways, or whose ways didn't arrive in time, are
+    // painted by grid cell, as without a network
+    if (this.resolver?.coverageAt(end) === 'mapped') {
+      const way = this.resolver.resolve(this.chain);
+      if (!way) return null;
+      const segment: PaintedSegment = {
+        id: String(way.id),
+        name: way.name,
+        highway: way.highway,
+        geometry: way.geometry,
+        visitCount: 1,
+        edgeCount: edgeCountOf(way.length),
+        coveredEdges: coveredEdges(way, this.chain)
+      };
+      return { segment, direction: travelDirection(way, this.chain) };
+    }
+
+    const segment: PaintedSegment = {
+      id: segmentKey(end.lat, end.lng),
+      geometry: {
+        type: 'LineString',
+        // GeoJSON uses [lng, lat]
+        coordinates: this.chain.map(point => [point.lng, point.lat])
+      },
+      visitCount: 1
+    };
+    // Grid cells have no direction of their own
+    return { segment, direction: 0 };
+  }
+}
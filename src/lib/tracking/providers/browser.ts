@@ -0,0 +1,47 @@
+import type { FixListener, LocationProvider } from './types';
+
+// REAL-TIME GPS OPTIONS: 5-10 second polling interval for battery efficiency
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000, // Longer timeout for mobile
+  maximumAge: 7500 // 7.5 seconds - middle of 5-10 second range for optimal polling
+};
+
+/** Device GPS via `navigator.geolocation.watchPosition` */
+export class BrowserLocationProvider implements LocationProvider {
+  readonly kind = 'browser' as const;
+  readonly label = 'Device GPS';
+  private watchId: number | null = null;
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.geolocation;
+  }
+
+  start(onFix: FixListener, onError?: (error: Error) => void): void {
+    this.stop();
+
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, accuracy, altitude, altitudeAccuracy, heading, speed } = position.coords;
+        onFix({
+          lat: latitude,
+          lng: longitude,
+          timestamp: position.timestamp,
+          accuracy,
+          altitude,
+          altitudeAccuracy,
+          heading,
+          speed
+        });
+      },
+      (error) => onError?.(new Error(error.message)),
+      WATCH_OPTIONS
+    );
+  }
+
+  stop(): void {
+    if (this.watchId === null) return;
+    navigator.geolocation.clearWatch(this.watchId);
+    this.watchId = null;
+  }
+}
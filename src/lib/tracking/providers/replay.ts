@@ -0,0 +1,149 @@
+import type { RawFix } from '../kalman';
+import type { FixListener, LocationProvider, LocationProviderKind } from './types';
+
+export interface ReplayOptions {
+  /** 2 plays back twice as fast; fix timestamps keep the recorded spacing */
+  speedMultiplier?: number;
+  label?: string;
+  /** Spacing (ms) assumed between points that carry no time */
+  defaultInterval?: number;
+}
+
+const DEFAULT_INTERVAL = 1000;
+
+const parseTime = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const withTimes = (points: Array<Omit<RawFix, 'timestamp'> & { time: number | null }>, interval: number): RawFix[] => {
+  const start = points.find(point => point.time !== null)?.time ?? 0;
+  return points.map(({ time, ...point }, index) => ({
+    ...point,
+    timestamp: time ?? start + index * interval
+  }));
+};
+
+/** Reads `<trkpt>` (or `<rtept>`) elements from a GPX document */
+export const parseGpx = (text: string, interval = DEFAULT_INTERVAL): RawFix[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX file');
+  }
+
+  let nodes = Array.from(doc.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) nodes = Array.from(doc.getElementsByTagName('rtept'));
+
+  const points = nodes.map(node => {
+    const child = (name: string) => node.getElementsByTagName(name)[0]?.textContent ?? null;
+    const hdop = child('hdop');
+    const ele = child('ele');
+    return {
+      lat: Number(node.getAttribute('lat')),
+      lng: Number(node.getAttribute('lon')),
+      altitude: ele !== null ? Number(ele) : null,
+      // GPX has no accuracy; HDOP × ~5 m is the usual rough conversion
+      accuracy: hdop !== null ? Number(hdop) * 5 : 5,
+      time: parseTime(child('time'))
+    };
+  });
+
+  return withTimes(points.filter(point => !Number.isNaN(point.lat) && !Number.isNaN(point.lng)), interval);
+};
+
+/**
+ * Reads a LineString/MultiLineString (bare, Feature or FeatureCollection).
+ * Per-point times come from `properties.coordTimes` or `properties.times`.
+ */
+export const parseGeoJsonTrack = (text: string, interval = DEFAULT_INTERVAL): RawFix[] => {
+  const json = JSON.parse(text) as GeoJSON.GeoJSON;
+  const features: GeoJSON.Feature[] =
+    json.type === 'FeatureCollection' ? json.features
+      : json.type === 'Feature' ? [json]
+        : [{ type: 'Feature', properties: {}, geometry: json as GeoJSON.Geometry }];
+
+  const points = features.flatMap(feature => {
+    const { geometry, properties } = feature;
+    const lines = geometry?.type === 'LineString' ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString' ? geometry.coordinates
+        : [];
+    const rawTimes = properties?.coordTimes ?? properties?.times;
+    const times: unknown[] = Array.isArray(rawTimes) ? rawTimes.flat() : [];
+
+    return lines.flat().map(([lng, lat, altitude], index) => ({
+      lat,
+      lng,
+      altitude: altitude ?? null,
+      accuracy: 5,
+      time: parseTime(times[index])
+    }));
+  });
+
+  if (points.length === 0) {
+    throw new Error('No LineString found in GeoJSON file');
+  }
+  return withTimes(points, interval);
+};
+
+export const parseTrackFile = (fileName: string, text: string): RawFix[] =>
+  /\.gpx$/i.test(fileName) ? parseGpx(text) : parseGeoJsonTrack(text);
+
+/**
+ * Plays back a recorded fix sequence in real time (scaled by the speed
+ * multiplier), re-stamped so the replay looks like it is happening now.
+ */
+export class ReplayLocationProvider implements LocationProvider {
+  readonly kind: LocationProviderKind = 'replay';
+  readonly label: string;
+  private readonly fixes: RawFix[];
+  private readonly speedMultiplier: number;
+  private cursor = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(fixes: RawFix[], options: ReplayOptions = {}) {
+    this.fixes = [...fixes].sort((a, b) => a.timestamp - b.timestamp);
+    this.speedMultiplier = Math.max(options.speedMultiplier ?? 1, 0.01);
+    this.label = options.label ?? 'Replay';
+  }
+
+  isSupported(): boolean {
+    return this.fixes.length > 0;
+  }
+
+  start(onFix: FixListener): void {
+    this.stop();
+    if (this.cursor >= this.fixes.length) return;
+
+    // Align the recording's clock with now, from wherever playback stopped
+    const origin = this.fixes[this.cursor].timestamp;
+    const epoch = Date.now();
+
+    const deliver = () => {
+      const fix = this.fixes[this.cursor];
+      onFix({ ...fix, timestamp: epoch + (fix.timestamp - origin) });
+      this.cursor += 1;
+
+      const next = this.fixes[this.cursor];
+      if (!next) {
+        this.timer = null;
+        return;
+      }
+      this.timer = setTimeout(deliver, (next.timestamp - fix.timestamp) / this.speedMultiplier);
+    };
+
+    this.timer = setTimeout(deliver, 0);
+  }
+
+  stop(): void {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  rewind(): void {
+    this.stop();
+    this.cursor = 0;
+  }
+}
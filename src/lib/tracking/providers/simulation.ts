@@ -0,0 +1,122 @@
+import type { RawFix } from '../kalman';
+import { calculateBearing, distanceBetween } from '../geo';
+import { ReplayLocationProvider } from './replay';
+import type { LocationProviderKind } from './types';
+
+export interface SimulationScript {
+  /** Route to follow, GeoJSON order [lng, lat] */
+  waypoints: Array<[number, number]>;
+  /** Ground speed (m/s) */
+  speed: number;
+  /** Time (ms) between fixes */
+  interval: number;
+  /** 1σ position noise (m); also reported as the fix accuracy */
+  noise: number;
+  /** Times to run the route; closed loops repeat seamlessly */
+  laps: number;
+  /** Chance (0..1) that a fix is replaced by a far-off spike */
+  spikeProbability: number;
+  /** PRNG seed, so the same script always yields the same fixes */
+  seed: number;
+}
+
+// A loop around a few Lower Manhattan blocks, near the map's default view
+export const DEFAULT_SIMULATION_SCRIPT: SimulationScript = {
+  waypoints: [
+    [-74.0060, 40.7128],
+    [-74.0031, 40.7143],
+    [-74.0012, 40.7118],
+    [-74.0041, 40.7101],
+    [-74.0060, 40.7128]
+  ],
+  speed: 4,
+  interval: 2000,
+  noise: 4,
+  laps: 3,
+  spikeProbability: 0.02,
+  seed: 1
+};
+
+const METERS_PER_DEGREE = 111_320;
+
+// mulberry32: tiny deterministic PRNG
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box–Muller transform for normally distributed noise
+const gaussian = (random: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const offset = (lat: number, lng: number, east: number, north: number): [number, number] => [
+  lat + north / METERS_PER_DEGREE,
+  lng + east / (METERS_PER_DEGREE * Math.cos(lat * Math.PI / 180))
+];
+
+/** Walks the scripted route at constant speed, emitting noisy fixes */
+export const generateRoute = (script: Partial<SimulationScript> = {}, startTime = 0): RawFix[] => {
+  const { waypoints, speed, interval, noise, laps, spikeProbability, seed } = {
+    ...DEFAULT_SIMULATION_SCRIPT,
+    ...script
+  };
+  if (waypoints.length < 2 || speed <= 0 || interval <= 0) return [];
+
+  const random = createRandom(seed);
+  const legs = waypoints.slice(1).map((to, index) => {
+    const from = waypoints[index];
+    const a = { lat: from[1], lng: from[0] };
+    const b = { lat: to[1], lng: to[0] };
+    return { from: a, to: b, length: distanceBetween(a, b), bearing: calculateBearing(a, b) };
+  });
+  const lapLength = legs.reduce((sum, leg) => sum + leg.length, 0);
+  const step = speed * interval / 1000;
+  const count = Math.floor(lapLength * laps / step) + 1;
+
+  const fixes: RawFix[] = [];
+  for (let i = 0; i < count; i++) {
+    let along = (i * step) % lapLength;
+    const leg = legs.find(candidate => {
+      if (along <= candidate.length) return true;
+      along -= candidate.length;
+      return false;
+    }) ?? legs[legs.length - 1];
+
+    const t = leg.length > 0 ? along / leg.length : 0;
+    let lat = leg.from.lat + (leg.to.lat - leg.from.lat) * t;
+    let lng = leg.from.lng + (leg.to.lng - leg.from.lng) * t;
+
+    [lat, lng] = offset(lat, lng, gaussian(random) * noise, gaussian(random) * noise);
+
+    if (random() < spikeProbability) {
+      const direction = random() * 2 * Math.PI;
+      [lat, lng] = offset(lat, lng, Math.sin(direction) * 500, Math.cos(direction) * 500);
+    }
+
+    fixes.push({
+      lat,
+      lng,
+      timestamp: startTime + i * interval,
+      accuracy: noise,
+      speed,
+      heading: leg.bearing
+    });
+  }
+
+  return fixes;
+};
+
+/** Replays a synthetic route generated from a script */
+export class SimulatedLocationProvider extends ReplayLocationProvider {
+  readonly kind: LocationProviderKind = 'simulation';
+
+  constructor(script: Partial<SimulationScript> = {}, speedMultiplier = 1) {
+    super(generateRoute(script), { speedMultiplier, label: 'Simulated route' });
+  }
+}
@@ -0,0 +1,15 @@
+import type { RawFix } from '../kalman';
+
+export type LocationProviderKind = 'browser' | 'replay' | 'simulation';
+
+export type FixListener = (fix: RawFix) => void;
+
+/** A source of position fixes for a tracking session */
+export interface LocationProvider {
+  readonly kind: LocationProviderKind;
+  readonly label: string;
+  isSupported(): boolean;
+  /** Begin delivering fixes; a stopped provider resumes where it left off */
+  start(onFix: FixListener, onError?: (error: Error) => void): void;
+  stop(): void;
+}
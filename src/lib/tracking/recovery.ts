@@ -0,0 +1,115 @@
+import type { SessionState, TrackingSessionApi } from './session';
+import type { UploadCursor } from './supabase-persistence';
+
+const STORAGE_KEY = 'street-sweeper:active-session';
+
+/** Locally stored copy of an in-progress session, for crash/reload recovery */
+export interface SessionCheckpoint {
+  version: 1;
+  userId: string;
+  /** Wall-clock time (ms) of the last write */
+  savedAt: number;
+  session: SessionState;
+  upload: UploadCursor;
+}
+
+export interface CheckpointingOptions {
+  /** Minimum time (ms) between writes while fixes are streaming in */
+  throttle?: number;
+}
+
+const writeCheckpoint = (checkpoint: SessionCheckpoint): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(checkpoint));
+  } catch (error) {
+    // Quota exceeded or storage disabled: recovery is best effort
+    console.error('Failed to checkpoint session:', error);
+  }
+};
+
+/** The signed-in user's interrupted session, if the tab died mid-run */
+export const loadCheckpoint = (userId: string): SessionCheckpoint | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const checkpoint = JSON.parse(raw) as SessionCheckpoint;
+    if (checkpoint.version !== 1 || checkpoint.userId !== userId) return null;
+    if (checkpoint.session.fixCount === 0) return null;
+    return checkpoint;
+  } catch {
+    return null;
+  }
+};
+
+export const clearCheckpoint = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+/**
+ * Mirrors an active session into localStorage so it survives the tab being
+ * killed. Subscribe after persistence, so the stored upload cursor already
+ * includes the writes queued for the same event. Returns the unsubscribe
+ * function.
+ */
+export const attachCheckpointing = (
+  session: TrackingSessionApi,
+  userId: string,
+  cursor: UploadCursor,
+  { throttle = 5000 }: CheckpointingOptions = {}
+): (() => void) => {
+  let lastWrite = 0;
+
+  const save = () => {
+    const { state } = session.getSnapshot();
+    if (state !== 'tracking' && state !== 'paused') return;
+
+    lastWrite = Date.now();
+    writeCheckpoint({
+      version: 1,
+      userId,
+      savedAt: lastWrite,
+      session: session.exportState(),
+      upload: { ...cursor, uploaded: [...cursor.uploaded] }
+    });
+  };
+
+  // Mobile browsers may never fire unload; these are the last reliable hooks
+  const handleHide = () => {
+    if (document.visibilityState === 'hidden') save();
+  };
+  window.addEventListener('pagehide', save);
+  document.addEventListener('visibilitychange', handleHide);
+
+  const unsubscribe = session.subscribe((event) => {
+    switch (event.type) {
+      case 'state':
+        if (event.state === 'stopped') {
+          clearCheckpoint();
+        } else {
+          save();
+        }
+        break;
+      case 'fix':
+        // PERFORMANCE: Serializing the whole trace on every fix is wasteful
+        if (event.recorded && Date.now() - lastWrite >= throttle) save();
+        break;
+      case 'checkpoint':
+        save();
+        break;
+      case 'reset':
+        clearCheckpoint();
+        break;
+    }
+  });
+
+  return () => {
+    window.removeEventListener('pagehide', save);
+    document.removeEventListener('visibilitychange', handleHide);
+    unsubscribe();
+  };
+};
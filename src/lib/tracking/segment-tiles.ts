@@ -0,0 +1,79 @@
+import type { BBox } from '@/lib/roads/types';
+import type { PaintedSegment } from './types';
+
+export type SegmentLoader = (bbox: BBox) => Promise<PaintedSegment[]>;
+
+export interface SegmentTileOptions {
+  /** Segments are fetched in square tiles of this size (degrees) */
+  tileSize: number;
+  /** Zoomed out further than this, nothing new is fetched */
+  minZoom: number;
+}
+
+export const DEFAULT_SEGMENT_TILE_OPTIONS: SegmentTileOptions = {
+  tileSize: 0.02,
+  minZoom: 11
+};
+
+/**
+ * Client-side cache of which areas of the user's painted segments have been
+ * fetched. Each viewport only requests the tiles it hasn't seen yet, in one
+ * query covering all of them.
+ */
+export class SegmentTiles {
+  private readonly loader: SegmentLoader;
+  private readonly options: SegmentTileOptions;
+  // Fetched or in flight
+  private readonly tiles = new Set<string>();
+  // Bumped by clear(), so responses to earlier requests are dropped
+  private generation = 0;
+
+  constructor(loader: SegmentLoader, options: Partial<SegmentTileOptions> = {}) {
+    this.loader = loader;
+    this.options = { ...DEFAULT_SEGMENT_TILE_OPTIONS, ...options };
+  }
+
+  /** Segments in the viewport's tiles that weren't fetched before */
+  async load([minLng, minLat, maxLng, maxLat]: BBox, zoom: number): Promise<PaintedSegment[]> {
+    if (zoom < this.options.minZoom) return [];
+
+    const size = this.options.tileSize;
+    const missing: Array<[number, number]> = [];
+    for (let row = Math.floor(minLat / size); row <= Math.floor(maxLat / size); row++) {
+      for (let col = Math.floor(minLng / size); col <= Math.floor(maxLng / size); col++) {
+        if (!this.tiles.has(`${row}_${col}`)) missing.push([row, col]);
+      }
+    }
+    if (missing.length === 0) return [];
+
+    // Claimed up front so overlapping moves don't fetch them twice
+    missing.forEach(([row, col]) => this.tiles.add(`${row}_${col}`));
+    const rows = missing.map(([row]) => row);
+    const cols = missing.map(([, col]) => col);
+    const bbox: BBox = [
+      Math.min(...cols) * size,
+      Math.min(...rows) * size,
+      (Math.max(...cols) + 1) * size,
+      (Math.max(...rows) + 1) * size
+    ];
+
+    const generation = this.generation;
+    try {
+      const segments = await this.loader(bbox);
+      return generation === this.generation ? segments : [];
+    } catch (error) {
+      // Left uncached, so the next move over this area tries again
+      if (generation === this.generation) {
+        missing.forEach(([row, col]) => this.tiles.delete(`${row}_${col}`));
+      }
+      console.error('Failed to load painted segments:', error);
+      return [];
+    }
+  }
+
+  /** Forget everything fetched, e.g. after the user's segments were rebuilt */
+  clear(): void {
+    this.tiles.clear();
+    this.generation++;
+  }
+}
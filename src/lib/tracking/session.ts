@@ -0,0 +1,511 @@
+import { isInPrivacyZone, type PrivacyZone } from '@/lib/privacy/zones';
+import type { WayResolver } from '@/lib/roads/types';
+import { AutoPause, type AutoPauseOptions } from './auto-pause';
+import { PositionFilter, type FilterRejection, type PositionFilterOptions, type RawFix } from './kalman';
+import { OutlierDetector, type OutlierMetrics, type OutlierOptions, type OutlierReason, type OutlierVerdict } from './outliers';
+import { isWaySegmentId, PaintingEngine, type PaintedPiece, type PaintingOptions } from './painting';
+import type { TraceParts } from './trace';
+import type { LocationPoint, PaintedSegment } from './types';
+
+export type RejectionReason = FilterRejection | OutlierReason;
+
+/** Audit record of a fix that never made it into the trace */
+export interface RejectedFix {
+  fix: RawFix;
+  reason: RejectionReason;
+  metrics: OutlierMetrics | null;
+}
+
+export type TrackingState = 'idle' | 'acquiring' | 'tracking' | 'paused' | 'stopped';
+
+export interface TrackingSnapshot {
+  state: TrackingState;
+  currentLocation: LocationPoint | null;
+  /**
+   * One part per uninterrupted stretch; resuming after a pause opens a new
+   * part. Grows in place, so watch `traceVersion` rather than the array
+   */
+  traceParts: TraceParts;
+  /** Bumped whenever `traceParts` changes */
+  traceVersion: number;
+  /** Fixes recorded across all parts */
+  fixCount: number;
+  paintedSegments: PaintedSegment[];
+  totalDistance: number;
+  streetsDiscovered: number;
+  /** Moving time: seconds spent in the tracking state, pauses excluded */
+  elapsedTime: number;
+  /** m/s */
+  currentSpeed: number;
+  /** Reported accuracy (m) of the latest raw fix */
+  gpsAccuracy: number;
+  /** Confidence (0..1) of the latest accepted fix */
+  confidence: number;
+  /** Fixes rejected by the outlier detector or position filter this session; appended in place */
+  rejections: RejectedFix[];
+  /** Bumped whenever `rejections` changes */
+  rejectionsVersion: number;
+  /** Paused by auto-pause rather than the user; moving on resumes it */
+  autoPaused: boolean;
+}
+
+export type TrackingEvent =
+  | { type: 'state'; state: TrackingState; previous: TrackingState }
+  | { type: 'fix'; fix: LocationPoint; recorded: boolean }
+  | { type: 'rejected'; rejection: RejectedFix }
+  | { type: 'segment'; piece: PaintedPiece }
+  | { type: 'checkpoint'; traceParts: TraceParts }
+  | { type: 'tick'; elapsedTime: number }
+  | { type: 'seeded' }
+  | { type: 'loaded'; count: number }
+  | { type: 'restored' }
+  | { type: 'reset' };
+
+export type TrackingListener = (event: TrackingEvent, snapshot: TrackingSnapshot) => void;
+
+export interface TrackingSeed {
+  segments?: PaintedSegment[];
+  /** Defaults to the number of way segments seeded, for when they aren't all loaded up front */
+  streetsDiscovered?: number;
+  totalDistance?: number;
+  traceParts?: TraceParts;
+}
+
+/** Everything needed to pick an interrupted session back up */
+export interface SessionState {
+  traceParts: TraceParts;
+  fixCount: number;
+  elapsedMs: number;
+  rejections: RejectedFix[];
+}
+
+export interface TrackingSessionOptions {
+  painting?: Partial<PaintingOptions>;
+  /** Attributes painted pieces to OSM ways; without one, grid cells are used */
+  resolver?: WayResolver;
+  filter?: Partial<PositionFilterOptions>;
+  outliers?: Partial<OutlierOptions>;
+  autoPause?: Partial<AutoPauseOptions>;
+  /** Emit a checkpoint event every N recorded fixes */
+  checkpointEvery?: number;
+  now?: () => number;
+}
+
+/** What the user can change while a session runs */
+export interface TrackingSettings {
+  filter?: Partial<PositionFilterOptions>;
+  painting?: Partial<PaintingOptions>;
+  autoPause?: Partial<AutoPauseOptions>;
+}
+
+const TRANSITIONS: Record<TrackingState, TrackingState[]> = {
+  idle: ['acquiring'],
+  acquiring: ['tracking', 'paused', 'stopped'],
+  tracking: ['paused', 'stopped'],
+  paused: ['tracking', 'stopped'],
+  stopped: ['acquiring', 'idle']
+};
+
+export const isActiveState = (state: TrackingState): boolean =>
+  state === 'acquiring' || state === 'tracking';
+
+export const INITIAL_SNAPSHOT: TrackingSnapshot = {
+  state: 'idle',
+  currentLocation: null,
+  traceParts: [],
+  traceVersion: 0,
+  fixCount: 0,
+  paintedSegments: [],
+  totalDistance: 0,
+  streetsDiscovered: 0,
+  elapsedTime: 0,
+  currentSpeed: 0,
+  gpsAccuracy: 0,
+  confidence: 0,
+  rejections: [],
+  rejectionsVersion: 0,
+  autoPaused: false
+};
+
+/**
+ * Framework-independent tracking state machine. Owns the timer, trace,
+ * distance/speed accounting and the painting engine; the UI, persistence
+ * and any replay tooling observe it through `subscribe`.
+ */
+export class TrackingSession {
+  private readonly engine: PaintingEngine;
+  private readonly filter: PositionFilter;
+  private readonly outliers: OutlierDetector;
+  private readonly autoPause: AutoPause;
+  private readonly checkpointEvery: number;
+  private readonly now: () => number;
+  private readonly listeners = new Set<TrackingListener>();
+  private snapshot: TrackingSnapshot = INITIAL_SNAPSHOT;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private elapsedMs = 0;
+  private trackingSince: number | null = null;
+  private privacyZones: PrivacyZone[] = [];
+  // The last fix was dropped inside a privacy zone
+  private inPrivacyZone = false;
+
+  constructor(options: TrackingSessionOptions = {}) {
+    this.engine = new PaintingEngine(options.painting, options.resolver);
+    this.filter = new PositionFilter(options.filter);
+    this.outliers = new OutlierDetector(options.outliers);
+    this.autoPause = new AutoPause(options.autoPause);
+    this.checkpointEvery = options.checkpointEvery ?? 15;
+    this.now = options.now ?? Date.now;
+  }
+
+  getSnapshot = (): TrackingSnapshot => this.snapshot;
+
+  subscribe = (listener: TrackingListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Load previously saved data so it is displayed and revisits are counted */
+  seed(seed: TrackingSeed): void {
+    const inProgress = this.snapshot.state !== 'idle' && this.snapshot.state !== 'stopped';
+    if (inProgress) {
+      // Keep the open chain and what this session painted, which may still be queued for upload
+      this.engine.merge(seed.segments ?? []);
+    } else {
+      this.engine.reset();
+      this.engine.seed(seed.segments ?? []);
+    }
+
+    this.update({
+      paintedSegments: this.engine.getSegments(),
+      streetsDiscovered: seed.streetsDiscovered ??
+        (seed.segments ?? []).filter(segment => isWaySegmentId(segment.id)).length,
+      totalDistance: seed.totalDistance ?? 0
+    });
+    // Never replace the trace of a session that is still in progress
+    if (!inProgress) {
+      this.replaceTrace(seed.traceParts ?? []);
+    }
+    this.emit({ type: 'seeded' });
+  }
+
+  /**
+   * Add segments fetched after seeding, e.g. for the area the map moved to.
+   * They're already counted in the seeded totals.
+   */
+  loadSegments(segments: PaintedSegment[]): void {
+    if (segments.length === 0) return;
+
+    this.engine.merge(segments);
+    this.update({ paintedSegments: this.engine.getSegments() });
+    this.emit({ type: 'loaded', count: segments.length });
+  }
+
+  exportState(): SessionState {
+    const { traceParts, fixCount, rejections } = this.snapshot;
+    const running = this.trackingSince !== null ? this.now() - this.trackingSince : 0;
+    return { traceParts, fixCount, elapsedMs: this.elapsedMs + running, rejections };
+  }
+
+  /**
+   * Reinstate an interrupted session as paused: `resume` continues it in a
+   * new trace part (so the gap isn't bridged), `stop` finishes it.
+   */
+  restore(saved: SessionState): void {
+    if (this.snapshot.state !== 'idle' && this.snapshot.state !== 'stopped') return;
+
+    this.engine.beginSession();
+    this.filter.reset();
+    this.outliers.reset();
+    this.autoPause.reset();
+    this.elapsedMs = saved.elapsedMs;
+    this.replaceTrace(saved.traceParts);
+    this.replaceRejections(saved.rejections);
+    this.update({
+      fixCount: saved.fixCount,
+      currentSpeed: 0,
+      autoPaused: false
+    });
+    this.emit({ type: 'restored' });
+    this.transition('paused');
+  }
+
+  start(): void {
+    if (!this.canTransition('acquiring')) return;
+
+    this.engine.beginSession();
+    this.filter.reset();
+    this.outliers.reset();
+    this.autoPause.reset();
+    this.elapsedMs = 0;
+    this.replaceTrace([[]]);
+    this.replaceRejections([]);
+    this.update({
+      fixCount: 0,
+      elapsedTime: 0,
+      currentSpeed: 0,
+      autoPaused: false
+    });
+    this.transition('acquiring');
+  }
+
+  pause(): void {
+    this.pauseTracking(false);
+  }
+
+  /** Continue a paused session; the next fix starts a new trace part */
+  resume(): void {
+    if (this.snapshot.state !== 'paused') return;
+
+    this.filter.reset();
+    this.autoPause.reset();
+    this.snapshot.traceParts.push([]);
+    this.update({ traceVersion: this.snapshot.traceVersion + 1, autoPaused: false });
+    this.transition('tracking');
+  }
+
+  stop(): void {
+    if (!this.canTransition('stopped')) return;
+
+    this.outliers.flush().forEach(verdict => this.settle(verdict));
+    this.engine.breakChain();
+    this.update({ currentSpeed: 0, autoPaused: false });
+    this.transition('stopped');
+  }
+
+  /** Clear everything, including seeded data (e.g. on sign-out) */
+  reset(): void {
+    this.stopTimer();
+    this.engine.reset();
+    this.filter.reset();
+    this.outliers.reset();
+    this.autoPause.reset();
+    this.elapsedMs = 0;
+    // Versions keep counting up, so observers never mistake the new trace for one they've seen
+    const { traceVersion, rejectionsVersion } = this.snapshot;
+    this.snapshot = INITIAL_SNAPSHOT;
+    this.replaceTrace([]);
+    this.replaceRejections([]);
+    this.update({ traceVersion: traceVersion + 1, rejectionsVersion: rejectionsVersion + 1 });
+    this.emit({ type: 'reset' });
+  }
+
+  addFix(raw: RawFix): void {
+    this.update({ gpsAccuracy: raw.accuracy ?? 0 });
+
+    // AUTO-PAUSE: Setting off again picks the session back up
+    if (this.snapshot.autoPaused && this.autoPause.hasMoved(raw)) {
+      this.resume();
+    }
+
+    if (!isActiveState(this.snapshot.state)) {
+      this.update({ currentLocation: raw });
+      this.emit({ type: 'fix', fix: raw, recorded: false });
+      return;
+    }
+
+    // Suspicious fixes may be held back and released (or rejected) later
+    this.outliers.push(raw).forEach(verdict => this.settle(verdict));
+
+    const { state, currentLocation } = this.snapshot;
+    if (state === 'tracking' && currentLocation && this.autoPause.isStill(currentLocation)) {
+      this.pauseTracking(true);
+    }
+  }
+
+  /** Takes effect from the next fix */
+  configure(settings: TrackingSettings): void {
+    if (settings.filter) this.filter.setOptions(settings.filter);
+    if (settings.painting) this.engine.setOptions(settings.painting);
+    if (settings.autoPause) this.autoPause.setOptions(settings.autoPause);
+  }
+
+  /**
+   * PRIVACY: Fixes inside these zones are never recorded, painted or kept
+   * as rejections, so they're neither stored nor shown
+   */
+  setPrivacyZones(zones: PrivacyZone[]): void {
+    this.privacyZones = zones;
+  }
+
+  /** Stop the internal clock; the session can still be observed afterwards */
+  dispose(): void {
+    this.stopTimer();
+  }
+
+  private pauseTracking(auto: boolean): void {
+    if (!this.canTransition('paused')) return;
+
+    this.outliers.flush().forEach(verdict => this.settle(verdict));
+    this.outliers.reset();
+    this.engine.breakChain();
+    this.update({ currentSpeed: 0, autoPaused: auto });
+    this.transition('paused');
+  }
+
+  private settle(verdict: OutlierVerdict): void {
+    if (verdict.accepted === false) {
+      this.reject({ fix: verdict.fix, reason: verdict.reason, metrics: verdict.metrics });
+      return;
+    }
+
+    if (verdict.confirmed) {
+      // A confirmed jump is real but wasn't travelled continuously
+      this.filter.reset();
+      this.engine.breakChain();
+    }
+
+    const filtered = this.filter.process(verdict.fix);
+    if (filtered.rejected) {
+      this.reject({ fix: verdict.fix, reason: filtered.rejected, metrics: null });
+      return;
+    }
+
+    if (isInPrivacyZone(filtered.point, this.privacyZones)) {
+      // Nothing is painted across the zone either
+      if (!this.inPrivacyZone) this.engine.breakChain();
+      this.inPrivacyZone = true;
+      this.update({ currentLocation: filtered.point });
+      this.emit({ type: 'fix', fix: filtered.point, recorded: false });
+      return;
+    }
+
+    this.record(filtered.point, filtered.confidence);
+  }
+
+  private reject(rejection: RejectedFix): void {
+    if (isInPrivacyZone(rejection.fix, this.privacyZones)) return;
+
+    this.snapshot.rejections.push(rejection);
+    this.update({ rejectionsVersion: this.snapshot.rejectionsVersion + 1 });
+    this.emit({ type: 'rejected', rejection });
+  }
+
+  private record(fix: LocationPoint, confidence: number): void {
+    this.update({ currentLocation: fix, confidence });
+
+    if (this.snapshot.state === 'acquiring') {
+      this.transition('tracking');
+    }
+
+    // PERFORMANCE: Appended in place, so a fix costs the same however long the trace is
+    const { traceParts } = this.snapshot;
+    const lastPart = traceParts[traceParts.length - 1];
+    // Leaving a privacy zone opens a new part, so the trace doesn't cross it
+    if (!lastPart || (this.inPrivacyZone && lastPart.length > 0)) {
+      traceParts.push([fix]);
+    } else {
+      lastPart.push(fix);
+    }
+    this.inPrivacyZone = false;
+    const fixCount = this.snapshot.fixCount + 1;
+    const changes: Partial<TrackingSnapshot> = { traceVersion: this.snapshot.traceVersion + 1, fixCount };
+
+    const step = this.engine.addFix(fix);
+
+    if (step.distance > 0) {
+      if (step.duration > 0) {
+        changes.currentSpeed = step.distance / (step.duration / 1000);
+      }
+      changes.totalDistance = this.snapshot.totalDistance + step.distance;
+    }
+
+    if (step.pieces.length > 0) {
+      changes.paintedSegments = this.engine.getSegments();
+      changes.streetsDiscovered =
+        this.snapshot.streetsDiscovered +
+        step.pieces.filter(piece => piece.isNew && isWaySegmentId(piece.segment.id)).length;
+    }
+
+    this.update(changes);
+    this.emit({ type: 'fix', fix, recorded: true });
+    step.pieces.forEach(piece => this.emit({ type: 'segment', piece }));
+
+    if (fixCount % this.checkpointEvery === 0) {
+      this.emit({ type: 'checkpoint', traceParts });
+    }
+  }
+
+  private canTransition(next: TrackingState): boolean {
+    return TRANSITIONS[this.snapshot.state].includes(next);
+  }
+
+  private transition(next: TrackingState): void {
+    const previous = this.snapshot.state;
+
+    if (previous === 'tracking') {
+      this.stopTimer();
+    }
+    if (next === 'tracking') {
+      this.startTimer();
+    }
+
+    this.update({ state: next, elapsedTime: this.elapsedSeconds() });
+    this.emit({ type: 'state', state: next, previous });
+  }
+
+  private startTimer(): void {
+    this.trackingSince = this.now();
+    this.timer = setInterval(() => {
+      const elapsedTime = this.elapsedSeconds();
+      if (elapsedTime === this.snapshot.elapsedTime) return;
+
+      this.update({ elapsedTime });
+      this.emit({ type: 'tick', elapsedTime });
+    }, 1000);
+  }
+
+  private stopTimer(): void {
+    if (this.trackingSince !== null) {
+      this.elapsedMs += this.now() - this.trackingSince;
+      this.trackingSince = null;
+    }
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private elapsedSeconds(): number {
+    const running = this.trackingSince !== null ? this.now() - this.trackingSince : 0;
+    return Math.floor((this.elapsedMs + running) / 1000);
+  }
+
+  // Fixes are appended to the session's own copies, never to arrays it was handed
+  private replaceTrace(traceParts: TraceParts): void {
+    this.update({ traceParts: traceParts.map(part => [...part]), traceVersion: this.snapshot.traceVersion + 1 });
+  }
+
+  private replaceRejections(rejections: RejectedFix[]): void {
+    this.update({ rejections: [...rejections], rejectionsVersion: this.snapshot.rejectionsVersion + 1 });
+  }
+
+  private update(changes: Partial<TrackingSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+  }
+
+  private emit(event: TrackingEvent): void {
+    this.listeners.forEach(listener => listener(event, this.snapshot));
+  }
+}
+
+/** The session as the UI, persistence and recovery drive it, in-process or in the tracking worker */
+export type TrackingSessionApi = Pick<
+  TrackingSession,
+  | 'getSnapshot'
+  | 'subscribe'
+  | 'seed'
+  | 'loadSegments'
+  | 'exportState'
+  | 'restore'
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'stop'
+  | 'reset'
+  | 'addFix'
+  | 'setPrivacyZones'
+  | 'configure'
+  | 'dispose'
+>;
@@ -0,0 +1,162 @@
+import type { TraceParts } from './trace';
+import type { LocationPoint } from './types';
+
+const METERS_PER_DEGREE = 111_320;
+
+// Distance (m) from p to the segment a-b, all in local flat-earth meters
+const distanceToSegment = (p: number[], a: number[], b: number[]): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+/**
+ * Douglas–Peucker: indices of the points to keep so no dropped point is
+ * further than `tolerance` meters from the simplified line. The first and
+ * last points are always kept.
+ */
+export const simplifyIndices = (points: LocationPoint[], tolerance: number): number[] => {
+  if (points.length <= 2 || tolerance <= 0) return points.map((_, index) => index);
+
+  // Street-scale flat-earth projection around the first point
+  const origin = points[0];
+  const kx = METERS_PER_DEGREE * Math.cos(origin.lat * Math.PI/180);
+  const projected = points.map(point => [(point.lng - origin.lng) * kx, (point.lat - origin.lat) * METERS_PER_DEGREE]);
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  // Iterative, so long straight stretches can't overflow the call stack
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(projected[i], projected[first], projected[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest === -1) continue;
+
+    keep[farthest] = 1;
+    stack.push([first, farthest], [farthest, last]);
+  }
+
+  const indices: number[] = [];
+  keep.forEach((kept, index) => {
+    if (kept) indices.push(index);
+  });
+  return indices;
+};
+
+export interface TraceLevel {
+  /** Used from this zoom until the next level's */
+  minZoom: number;
+  /** Douglas–Peucker tolerance (m); 0 draws every point */
+  tolerance: number;
+}
+
+export interface TraceSimplifierOptions {
+  /** Ascending by minZoom; each tolerance stays under a pixel or so at its zooms */
+  levels: TraceLevel[];
+  /** A growing part's last points are re-simplified on every fix; beyond this many, the older ones are frozen */
+  tailLength: number;
+}
+
+export const DEFAULT_TRACE_SIMPLIFIER_OPTIONS: TraceSimplifierOptions = {
+  levels: [
+    { minZoom: 0, tolerance: 100 },
+    { minZoom: 10, tolerance: 20 },
+    { minZoom: 13, tolerance: 5 },
+    { minZoom: 15, tolerance: 1 },
+    { minZoom: 17, tolerance: 0 }
+  ],
+  tailLength: 200
+};
+
+// One part simplified at one level
+interface PartState {
+  /** Identifies the part across updates: a growing part keeps its first point */
+  first: LocationPoint;
+  length: number;
+  /** Kept coordinates before `frozenIndex`; never recomputed */
+  frozen: number[][];
+  /** Start of the tail, itself a kept point */
+  frozenIndex: number;
+  coordinates: number[][];
+}
+
+const toCoordinate = (point: LocationPoint): number[] => [point.lng, point.lat];
+
+/**
+ * Zoom-appropriate versions of a trace for drawing. During a live session
+ * only the last part grows, so each update re-simplifies just its tail; the
+ * rest is reused from the previous update.
+ */
+export class TraceSimplifier {
+  private readonly options: TraceSimplifierOptions;
+  // Per level, per part
+  private readonly states: PartState[][];
+
+  constructor(options: Partial<TraceSimplifierOptions> = {}) {
+    this.options = { ...DEFAULT_TRACE_SIMPLIFIER_OPTIONS, ...options };
+    this.states = this.options.levels.map(() => []);
+  }
+
+  /** The trace as a MultiLineString for a zoom; parts with fewer than two points are left out */
+  simplify(parts: TraceParts, zoom: number): GeoJSON.MultiLineString {
+    const { levels } = this.options;
+    let level = 0;
+    while (level + 1 < levels.length && zoom >= levels[level + 1].minZoom) level++;
+
+    const previous = this.states[level];
+    const states = parts.map((part, index) => this.updatePart(previous[index], part, levels[level].tolerance));
+    this.states[level] = states;
+
+    return {
+      type: 'MultiLineString',
+      coordinates: states
+        .filter(state => state && state.coordinates.length > 1)
+        .map(state => state.coordinates)
+    };
+  }
+
+  private updatePart(state: PartState | undefined, part: LocationPoint[], tolerance: number): PartState | undefined {
+    if (part.length === 0) return undefined;
+
+    // Anything but points appended to the same part starts over
+    const grown = state && state.first === part[0] && part.length >= state.length;
+    if (grown && part.length === state.length) return state;
+
+    let frozen = grown ? state.frozen : [];
+    let frozenIndex = grown ? state.frozenIndex : 0;
+    let tail = part.slice(frozenIndex);
+    let kept = simplifyIndices(tail, tolerance);
+
+    // Freeze all but the end of a long tail. The vertex it's cut at is kept
+    // either way, so each piece stays within tolerance on its own
+    if (tail.length > this.options.tailLength) {
+      const cut = kept.length > 2 ? kept[kept.length - 2] : kept[kept.length - 1];
+      frozen = frozen.concat(kept.filter(index => index < cut).map(index => toCoordinate(tail[index])));
+      frozenIndex += cut;
+      tail = part.slice(frozenIndex);
+      kept = simplifyIndices(tail, tolerance);
+    }
+
+    return {
+      first: part[0],
+      length: part.length,
+      frozen,
+      frozenIndex,
+      coordinates: frozen.concat(kept.map(index => toCoordinate(tail[index])))
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { RoadNetwork } from '@/lib/roads/network';
+import { loadNetworkAlong, parseTraceSummary, replayVisits, type TraceSummary } from './history';
+import type { PaintingOptions } from './painting';
+import { parseTracePoints, serializePoint, type TraceParts } from './trace';
+import { visitEdges } from './visits';
+
+export interface TraceListItem {
+  id: string;
+  createdAt: string;
+  /** Whether the map matcher has processed the current points */
+  processed: boolean;
+  summary: TraceSummary | null;
+}
+
+/** The user's traces, newest first */
+export const listTraces = async (userId: string, limit = 50): Promise<TraceListItem[]> => {
+  const { data, error } = await supabase
+    .from('traces')
+    .select('id, created_at, processed, summary')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return (data ?? []).map(trace => ({
+    id: trace.id,
+    createdAt: trace.created_at,
+    processed: trace.processed,
+    summary: parseTraceSummary(trace.summary)
+  }));
+};
+
+export const loadTraceParts = async (traceId: string): Promise<TraceParts> => {
+  // Points are reassembled server-side from the trace's chunks
+  const { data, error } = await supabase.rpc('get_trace_points', { p_trace_id: traceId });
+  if (error) throw error;
+  return parseTracePoints(data);
+};
+
+export interface TraceEdit {
+  traceId: string;
+  /** The trace's points after the edit */
+  parts: TraceParts;
+  /** Creation time (ms) for traces the edit creates, e.g. the second half of a split */
+  createdAt?: number;
+}
+
+/**
+ * Rewrites the given traces and deletes `deleted` in one transaction. Each
+ * edited trace is painted again over the road network to find its visits;
+ * the server then rebuilds every segment the traces painted before or after,
+ * dropping segments no other trace visited. `painting` should match the
+ * user's live tracking settings so edits paint what the session did.
+ */
+export const saveTraceEdits = async (
+  edits: TraceEdit[],
+  network: RoadNetwork,
+  deleted: string[] = [],
+  painting: Partial<PaintingOptions> = {}
+): Promise<void> => {
+  const payload = [];
+  for (const edit of edits) {
+    await loadNetworkAlong(edit.parts, network);
+    const visits = replayVisits(edit.parts, network, painting).map(visit => ({
+      osm_way_id: visit.segment.id,
+      visited_at: new Date(visit.startedAt).toISOString(),
+      direction: visit.direction,
+      distance_meters: visit.distance,
+      edge_count: visit.segment.edgeCount ?? null,
+      covered_edges: visitEdges(visit),
+      geometry: visit.segment.geometry
+    }));
+
+    payload.push({
+      trace_id: edit.traceId,
+      created_at: edit.createdAt !== undefined ? new Date(edit.createdAt).toISOString() : null,
+      parts: edit.parts.map(part => part.map(serializePoint)),
+      visits
+    });
+  }
+
+  const { error } = await supabase.rpc('apply_trace_edits', {
+    p_edits: payload as unknown as Json,
+    p_deleted: deleted
+  });
+  if (error) throw error;
+};
+
+/** Delete a trace and everything only it painted */
+export const deleteTrace = async (traceId: string): Promise<void> => {
+  const { error } = await supabase.rpc('apply_trace_edits', { p_edits: [], p_deleted: [traceId] });
+  if (error) throw error;
+};
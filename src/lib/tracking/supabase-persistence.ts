@@ -0,0 +1,146 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { Outbox } from '@/lib/sync/outbox';
+import type { PaintedPiece } from './painting';
+import type { TrackingSessionApi, TrackingSnapshot } from './session';
+import { pendingChunks, serializePoint, serializeRejections } from './trace';
+import { extendVisit, startVisit, visitEdges, type SegmentVisit } from './visits';
+
+/** How much of the current session has already been queued for upload */
+export interface UploadCursor {
+  /** Generated client-side so queued writes can be replayed safely */
+  traceId: string | null;
+  nextSequence: number;
+  /** Points queued per trace part */
+  uploaded: number[];
+  uploadedRejections: number;
+}
+
+interface PendingVisit extends SegmentVisit {
+  /** Changed since it was last queued */
+  dirty: boolean;
+}
+
+export const createUploadCursor = (): UploadCursor => ({
+  traceId: null,
+  nextSequence: 0,
+  uploaded: [],
+  uploadedRejections: 0
+});
+
+/**
+ * Queues a session's trace and segment visits for upload to Supabase. Trace
+ * points are appended as chunks, so each save only sends what was recorded
+ * since the previous one. `cursor` is updated in place so it can be
+ * checkpointed alongside the session. Returns the unsubscribe function.
+ */
+export const attachSupabasePersistence = (
+  session: TrackingSessionApi,
+  userId: string,
+  outbox: Outbox,
+  cursor: UploadCursor = createUploadCursor()
+): (() => void) => {
+  // Visits reference the trace, so whichever is saved first creates it
+  const ensureTrace = (): string => {
+    if (!cursor.traceId) {
+      cursor.traceId = crypto.randomUUID();
+      outbox.enqueue(userId, { kind: 'create-trace', traceId: cursor.traceId, userId });
+    }
+    return cursor.traceId;
+  };
+
+  const saveTrace = ({ traceParts, rejections }: TrackingSnapshot) => {
+    const chunks = pendingChunks(traceParts, cursor.uploaded);
+    if (chunks.length === 0 && rejections.length === cursor.uploadedRejections) return;
+
+    const traceId = ensureTrace();
+
+    chunks.forEach(chunk => {
+      outbox.enqueue(userId, {
+        kind: 'append-chunk',
+        traceId,
+        userId,
+        sequence: cursor.nextSequence++,
+        part: chunk.part,
+        points: chunk.points.map(serializePoint)
+      });
+    });
+    cursor.uploaded = traceParts.map(part => part.length);
+
+    // Rejections are rare, so the small audit array is simply replaced
+    if (rejections.length !== cursor.uploadedRejections) {
+      outbox.enqueue(userId, {
+        kind: 'update-rejections',
+        traceId,
+        rejectedPoints: serializeRejections(rejections)
+      });
+      cursor.uploadedRejections = rejections.length;
+    }
+  };
+
+  // This session's visit to each segment, accumulated piece by piece
+  const visits = new Map<string, PendingVisit>();
+
+  const saveVisit = (visit: PendingVisit) => {
+    const { segment } = visit;
+    outbox.enqueue(userId, {
+      kind: 'record-visit',
+      userId,
+      traceId: ensureTrace(),
+      osmWayId: segment.id,
+      visitedAt: visit.startedAt,
+      direction: visit.direction,
+      distanceMeters: visit.distance,
+      edgeCount: segment.edgeCount ?? null,
+      coveredEdges: visitEdges(visit),
+      geometry: segment.geometry as unknown as Json
+    });
+    visit.dirty = false;
+  };
+
+  const trackVisit = (piece: PaintedPiece) => {
+    const visit = visits.get(piece.segment.id);
+
+    // First visit this session is saved straight away so the segment exists
+    if (!visit) {
+      const started: PendingVisit = { ...startVisit(piece), dirty: false };
+      visits.set(piece.segment.id, started);
+      saveVisit(started);
+      return;
+    }
+
+    extendVisit(visit, piece);
+    visit.dirty = true;
+  };
+
+  // PERFORMANCE: Further pieces of a visit are batched until the next save
+  const saveVisits = () => {
+    visits.forEach(visit => {
+      if (visit.dirty) saveVisit(visit);
+    });
+  };
+
+  return session.subscribe((event, snapshot) => {
+    switch (event.type) {
+      case 'state':
+        if (event.state === 'acquiring') {
+          // New session, new trace
+          Object.assign(cursor, createUploadCursor());
+          visits.clear();
+        }
+        // Save on pause too, so a session left paused isn't lost
+        if (event.state === 'paused' || event.state === 'stopped') {
+          saveTrace(snapshot);
+          saveVisits();
+        }
+        break;
+      case 'checkpoint':
+        // PERFORMANCE: Trace is saved every N fixes for battery efficiency
+        saveTrace(snapshot);
+        saveVisits();
+        break;
+      case 'segment':
+        trackVisit(event.piece);
+        break;
+    }
+  });
+};
@@ -0,0 +1,56 @@
+import { SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { BBox } from '@/lib/roads/types';
+import type { SegmentLoader } from './segment-tiles';
+import type { PaintedSegment } from './types';
+
+type SegmentRow = Database['public']['Functions']['get_segments_in_bbox']['Returns'][number];
+
+const toPaintedSegment = (segment: SegmentRow): PaintedSegment => ({
+  id: segment.osm_way_id,
+  name: segment.name,
+  highway: segment.highway ?? undefined,
+  geometry: segment.geometry as unknown as GeoJSON.LineString,
+  visitCount: segment.visit_count,
+  edgeCount: segment.edge_count ?? undefined,
+  coveredEdges: segment.edge_count ? segment.covered_edges : undefined,
+  firstVisitedAt: segment.first_visited_at ? Date.parse(segment.first_visited_at) : undefined,
+  lastVisitedAt: segment.last_visited_at ? Date.parse(segment.last_visited_at) : undefined,
+  activity: segment.activity_type ?? undefined
+});
+
+/** The signed-in user's segments intersecting a bounding box */
+export const loadSegmentsFromSupabase: SegmentLoader = async ([minLng, minLat, maxLng, maxLat]: BBox) => {
+  const { data, error } = await supabase.rpc('get_segments_in_bbox', {
+    p_min_lng: minLng,
+    p_min_lat: minLat,
+    p_max_lng: maxLng,
+    p_max_lat: maxLat
+  });
+  if (error) throw error;
+  return (data ?? []).map(toPaintedSegment);
+};
+
+export interface SegmentStats {
+  /** Every segment, grid cells included */
+  segmentCount: number;
+  streetsDiscovered: number;
+  totalDistance: number;
+}
+
+/** Totals over all of the user's segments, not just the loaded ones */
+export const loadSegmentStats = async (): Promise<SegmentStats> => {
+  const { data, error } = await supabase.rpc('get_segment_stats');
+  if (error) throw error;
+
+  const [stats] = data ?? [];
+  return {
+    segmentCount: stats?.segment_count ?? 0,
+    streetsDiscovered: stats?.streets_discovered ?? 0,
+    totalDistance: stats?.total_distance ?? 0
+  };
+};
+
+/** Tile URL template for the segment-tiles edge function; a new version refetches every tile */
+export const segmentTileUrl = (version: number): string =>
+  `${SUPABASE_URL}/functions/v1/segment-tiles/{z}/{x}/{y}?v=${version}`;
@@ -0,0 +1,90 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { RejectedFix } from './session';
+import type { LocationPoint } from './types';
+
+/**
+ * A trace is stored MultiLineString-style: one array of points per
+ * uninterrupted part, so pause gaps are never bridged.
+ */
+export type TraceParts = LocationPoint[][];
+
+const isPoint = (value: unknown): value is LocationPoint =>
+  typeof value === 'object' && value !== null && 'lat' in value && 'lng' in value;
+
+/** Accepts both the multi-part format and legacy flat point arrays */
+export const parseTracePoints = (points: Json): TraceParts => {
+  if (!Array.isArray(points) || points.length === 0) return [];
+
+  if (points.every(isPoint)) {
+    return [points as unknown as LocationPoint[]];
+  }
+
+  return points
+    .filter((part): part is Json[] => Array.isArray(part))
+    .map(part => part.filter(isPoint) as unknown as LocationPoint[])
+    .filter(part => part.length > 0);
+};
+
+export const serializePoint = (
+  { lat, lng, timestamp, accuracy, altitude, altitudeAccuracy, heading, speed }: LocationPoint
+): Json => ({
+  lat,
+  lng,
+  timestamp,
+  accuracy,
+  altitude,
+  altitudeAccuracy,
+  heading,
+  speed
+});
+
+export interface TraceChunk {
+  part: number;
+  points: LocationPoint[];
+}
+
+/**
+ * Points recorded since the last upload, one chunk per part.
+ * `uploaded[i]` is how many points of part i have already been stored.
+ */
+export const pendingChunks = (parts: TraceParts, uploaded: number[]): TraceChunk[] =>
+  parts
+    .map((points, part) => ({ part, points: points.slice(uploaded[part] ?? 0) }))
+    .filter(chunk => chunk.points.length > 0);
+
+export const serializeRejections = (rejections: RejectedFix[]): Json =>
+  rejections.map(({ fix, reason, metrics }) => ({
+    lat: fix.lat,
+    lng: fix.lng,
+    timestamp: fix.timestamp,
+    accuracy: fix.accuracy ?? null,
+    reason,
+    // Infinity (duplicate timestamps) isn't representable in JSON
+    speed: metrics && Number.isFinite(metrics.speed) ? metrics.speed : null,
+    acceleration: metrics?.acceleration ?? null,
+    heading_change: metrics?.headingChange ?? null
+  }));
+
+// GeoJSON uses [lng, lat]; parts with fewer than two points can't be drawn
+export const toMultiLineString = (parts: TraceParts): GeoJSON.MultiLineString => ({
+  type: 'MultiLineString',
+  coordinates: parts
+    .filter(part => part.length > 1)
+    .map(part => part.map(point => [point.lng, point.lat]))
+});
+
+/** Map-matched geometry from traces.snapped_geometry, if the trace has been processed */
+export const parseSnappedGeometry = (geometry: Json | null): GeoJSON.MultiLineString | null => {
+  if (!geometry || typeof geometry !== 'object' || Array.isArray(geometry)) return null;
+
+  const { type, coordinates } = geometry as { type?: string; coordinates?: unknown };
+  if (!Array.isArray(coordinates)) return null;
+
+  if (type === 'LineString') {
+    return { type: 'MultiLineString', coordinates: [coordinates as number[][]] };
+  }
+  if (type === 'MultiLineString') {
+    return { type: 'MultiLineString', coordinates: coordinates as number[][][] };
+  }
+  return null;
+};
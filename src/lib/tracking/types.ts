@@ -0,0 +1,38 @@
+/** A position fix; optional fields mirror `GeolocationCoordinates` */
+export interface LocationPoint {
+  lat: number;
+  lng: number;
+  /** Time the fix was taken (ms since epoch), not when it was processed */
+  timestamp: number;
+  /** Horizontal accuracy (m) */
+  accuracy?: number;
+  /** Meters above the WGS84 ellipsoid */
+  altitude?: number | null;
+  altitudeAccuracy?: number | null;
+  /** Course over ground (degrees clockwise from north) */
+  heading?: number | null;
+  /** Ground speed (m/s) */
+  speed?: number | null;
+  /** 0..1, set by the position filter; unfiltered fixes are fully trusted */
+  confidence?: number;
+}
+
+export interface PaintedSegment {
+  /** OSM way id (legacy segments: grid cell key) */
+  id: string;
+  /** Street name, when the way has one */
+  name?: string | null;
+  /** OSM highway class */
+  highway?: string;
+  geometry: GeoJSON.LineString;
+  visitCount: number;
+  /** Number of fixed-length sub-edges the way is split into */
+  edgeCount?: number;
+  /** Sorted indices of the sub-edges travelled so far */
+  coveredEdges?: number[];
+  /** When the segment was first and last travelled (ms since epoch) */
+  firstVisitedAt?: number;
+  lastVisitedAt?: number;
+  /** How it was last travelled (walk, run, cycle, drive), when known */
+  activity?: string;
+}
@@ -0,0 +1,33 @@
+import type { PaintedPiece } from './painting';
+import type { PaintedSegment } from './types';
+
+/** One session's visit to a segment, accumulated piece by piece */
+export interface SegmentVisit {
+  segment: PaintedSegment;
+  /** Timestamp (ms) of the visit's first fix */
+  startedAt: number;
+  /** 1 along the way's geometry, -1 against it, 0 unknown */
+  direction: number;
+  /** Meters painted on the segment during the visit */
+  distance: number;
+  edges: Set<number>;
+}
+
+export const startVisit = (piece: PaintedPiece): SegmentVisit => ({
+  segment: piece.segment,
+  startedAt: piece.startedAt,
+  direction: piece.direction,
+  distance: piece.length,
+  edges: new Set(piece.coveredEdges)
+});
+
+export const extendVisit = (visit: SegmentVisit, piece: PaintedPiece): void => {
+  visit.segment = piece.segment;
+  visit.distance += piece.length;
+  if (visit.direction === 0) visit.direction = piece.direction;
+  piece.coveredEdges.forEach(edge => visit.edges.add(edge));
+};
+
+/** Sorted sub-edges travelled during the visit */
+export const visitEdges = (visit: SegmentVisit): number[] =>
+  Array.from(visit.edges).sort((a, b) => a - b);
@@ -0,0 +1,153 @@
+import type { RejectedFix, TrackingSnapshot } from '../session';
+import type { TraceParts } from '../trace';
+import type { PaintedSegment } from '../types';
+import type { SegmentPatch, SnapshotPatch, TraceGeometryPatch, TracePatch } from './protocol';
+
+const SCALAR_FIELDS = [
+  'state',
+  'currentLocation',
+  'traceVersion',
+  'fixCount',
+  'totalDistance',
+  'streetsDiscovered',
+  'elapsedTime',
+  'currentSpeed',
+  'gpsAccuracy',
+  'confidence',
+  'rejectionsVersion',
+  'autoPaused'
+] as const;
+
+/**
+ * Worker side: what the UI's mirror holds. The session grows its trace and
+ * rejections in place, so the lengths posted are kept rather than the
+ * previous arrays.
+ */
+export interface MirrorState {
+  segments: Map<string, PaintedSegment>;
+  traceParts: TraceParts;
+  partLengths: number[];
+  rejections: RejectedFix[];
+  rejectionCount: number;
+}
+
+export const createMirrorState = ({ traceParts, rejections }: TrackingSnapshot): MirrorState => ({
+  segments: new Map(),
+  traceParts,
+  partLengths: traceParts.map(part => part.length),
+  rejections,
+  rejectionCount: rejections.length
+});
+
+// A live trace only grows: points onto its last part, or a new part on resume.
+// Any other change comes with a new array
+const diffTrace = (mirror: MirrorState, next: TraceParts): TracePatch => {
+  const extended = next === mirror.traceParts;
+  const from = mirror.partLengths;
+  mirror.traceParts = next;
+  mirror.partLengths = next.map(part => part.length);
+  if (!extended) return { reset: next, appended: [] };
+
+  const appended: TracePatch['appended'] = [];
+  next.forEach((part, index) => {
+    if (index >= from.length || part.length > from[index]) {
+      appended.push({ part: index, points: part.slice(from[index] ?? 0) });
+    }
+  });
+  return { appended };
+};
+
+// Segments are replaced, never mutated, when painted, so changed ones are new objects
+const diffSegments = (sent: Map<string, PaintedSegment>, next: PaintedSegment[]): SegmentPatch | undefined => {
+  const changed = next.filter(segment => sent.get(segment.id) !== segment);
+  const added = changed.filter(segment => !sent.has(segment.id)).length;
+
+  // Only seeding and resetting remove segments; those resend everything
+  if (sent.size + added !== next.length) {
+    sent.clear();
+    next.forEach(segment => sent.set(segment.id, segment));
+    return { reset: true, segments: next };
+  }
+
+  changed.forEach(segment => sent.set(segment.id, segment));
+  return changed.length > 0 ? { reset: false, segments: changed } : undefined;
+};
+
+/**
+ * Worker side: what changed between the last snapshot posted and this one.
+ * `mirror` tracks what was posted and is updated to match.
+ */
+export const diffSnapshot = (
+  previous: TrackingSnapshot,
+  next: TrackingSnapshot,
+  mirror: MirrorState
+): SnapshotPatch => {
+  const patch: SnapshotPatch = {};
+  for (const field of SCALAR_FIELDS) {
+    if (previous[field] !== next[field]) Object.assign(patch, { [field]: next[field] });
+  }
+
+  if (previous.traceVersion !== next.traceVersion) {
+    patch.trace = diffTrace(mirror, next.traceParts);
+  }
+
+  if (previous.paintedSegments !== next.paintedSegments) {
+    const segments = diffSegments(mirror.segments, next.paintedSegments);
+    if (segments) patch.segments = segments;
+  }
+
+  if (previous.rejectionsVersion !== next.rejectionsVersion) {
+    patch.rejections = next.rejections === mirror.rejections
+      ? { reset: false, added: next.rejections.slice(mirror.rejectionCount) }
+      : { reset: true, added: next.rejections };
+    mirror.rejections = next.rejections;
+    mirror.rejectionCount = next.rejections.length;
+  }
+  return patch;
+};
+
+/**
+ * UI side: the mirrored snapshot with a patch applied. Only the trace parts
+ * a patch touches are replaced; the others, and the previous snapshot, are
+ * left as they were. `segments` is the mirror's segment map and is updated
+ * to match.
+ */
+export const applySnapshotPatch = (
+  snapshot: TrackingSnapshot,
+  { trace, segments: segmentPatch, rejections, ...scalars }: SnapshotPatch,
+  segments: Map<string, PaintedSegment>
+): TrackingSnapshot => {
+  const next: TrackingSnapshot = { ...snapshot, ...scalars };
+
+  if (trace) {
+    const parts = trace.reset ?? [...snapshot.traceParts];
+    for (const { part, points } of trace.appended) {
+      parts[part] = part < parts.length ? parts[part].concat(points) : points;
+    }
+    next.traceParts = parts;
+  }
+
+  if (segmentPatch) {
+    if (segmentPatch.reset) segments.clear();
+    segmentPatch.segments.forEach(segment => segments.set(segment.id, segment));
+    next.paintedSegments = Array.from(segments.values());
+  }
+
+  if (rejections) {
+    next.rejections = rejections.reset ? rejections.added : [...snapshot.rejections, ...rejections.added];
+  }
+  return next;
+};
+
+/** Worker side: coordinates are shared between versions up to where the simplifier recomputed */
+export const diffTraceGeometry = (previous: number[][][], next: number[][][]): TraceGeometryPatch =>
+  next.map((coordinates, index) => {
+    const before = previous[index] ?? [];
+    let keep = 0;
+    while (keep < before.length && keep < coordinates.length && before[keep] === coordinates[keep]) keep++;
+    return { keep, coordinates: coordinates.slice(keep) };
+  });
+
+/** UI side: the simplified trace with a patch applied */
+export const applyTraceGeometryPatch = (previous: number[][][], patch: TraceGeometryPatch): number[][][] =>
+  patch.map(({ keep, coordinates }, index) => (previous[index] ?? []).slice(0, keep).concat(coordinates));
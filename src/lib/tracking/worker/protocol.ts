@@ -0,0 +1,80 @@
+import type { PrivacyZone } from '@/lib/privacy/zones';
+import type { BBox, RoadWay } from '@/lib/roads/types';
+import type { RawFix } from '../kalman';
+import type {
+  RejectedFix,
+  SessionState,
+  TrackingEvent,
+  TrackingSeed,
+  TrackingSettings,
+  TrackingSnapshot
+} from '../session';
+import type { LocationPoint, PaintedSegment } from '../types';
+
+/**
+ * Messages between the UI thread and the tracking worker. The worker owns
+ * the session (filtering, painting, distances) and the trace simplifier;
+ * the UI keeps a mirror of the snapshot built from the diffs it posts back.
+ */
+
+/** UI -> worker */
+export type TrackingCommand =
+  | { type: 'seed'; seed: TrackingSeed }
+  | { type: 'load-segments'; segments: PaintedSegment[] }
+  | { type: 'restore'; saved: SessionState }
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' }
+  | { type: 'reset' }
+  | { type: 'dispose' }
+  | { type: 'fix'; fix: RawFix }
+  | { type: 'privacy-zones'; zones: PrivacyZone[] }
+  | { type: 'configure'; settings: TrackingSettings }
+  /** The live trace is simplified for this zoom */
+  | { type: 'zoom'; zoom: number }
+  | { type: 'ways'; requestId: number; ways: RoadWay[] }
+  | { type: 'ways-failed'; requestId: number; message: string };
+
+/**
+ * Points appended to the trace since the last patch: `points` go onto the
+ * end of part `part`, which is new when it's past the last part. When the
+ * trace was replaced rather than extended, `reset` holds all of it.
+ */
+export interface TracePatch {
+  reset?: TrackingSnapshot['traceParts'];
+  appended: Array<{ part: number; points: LocationPoint[] }>;
+}
+
+/** Segments added or changed since the last patch; `reset` replaces them all */
+export interface SegmentPatch {
+  reset: boolean;
+  segments: PaintedSegment[];
+}
+
+type ScalarFields = Omit<TrackingSnapshot, 'traceParts' | 'paintedSegments' | 'rejections'>;
+
+export interface SnapshotPatch extends Partial<ScalarFields> {
+  trace?: TracePatch;
+  segments?: SegmentPatch;
+  /** Rejections since the last patch; `reset` replaces them all */
+  rejections?: { reset: boolean; added: RejectedFix[] };
+}
+
+/** Checkpoints carry the whole trace, which the UI rebuilds from its mirror */
+export type WireEvent =
+  | Exclude<TrackingEvent, { type: 'checkpoint' }>
+  | { type: 'checkpoint' };
+
+/**
+ * The simplified live trace, per part: the first `keep` coordinates of the
+ * previous version are unchanged and `coordinates` follow them.
+ */
+export type TraceGeometryPatch = Array<{ keep: number; coordinates: number[][] }>;
+
+/** Worker -> UI */
+export type TrackingMessage =
+  // Changes since the previous update, and the event that followed them
+  | { type: 'update'; patch: SnapshotPatch; event: WireEvent; elapsedMs: number }
+  | { type: 'trace'; parts: TraceGeometryPatch }
+  | { type: 'load-ways'; requestId: number; bbox: BBox };
@@ -0,0 +1,177 @@
+import type { PrivacyZone } from '@/lib/privacy/zones';
+import type { WayLoader } from '@/lib/roads/types';
+import type { RawFix } from '../kalman';
+import {
+  INITIAL_SNAPSHOT,
+  type SessionState,
+  type TrackingEvent,
+  type TrackingListener,
+  type TrackingSeed,
+  type TrackingSessionApi,
+  type TrackingSettings,
+  type TrackingSnapshot
+} from '../session';
+import type { PaintedSegment } from '../types';
+import { applySnapshotPatch, applyTraceGeometryPatch } from './diff';
+import type { SegmentPatch, TrackingCommand, TrackingMessage, WireEvent } from './protocol';
+
+export type SegmentPatchListener = (patch: SegmentPatch) => void;
+
+export const createTrackingWorker = (): Worker =>
+  new Worker(new URL('./tracking.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * A tracking session running in a Web Worker. Commands are posted to the
+ * worker in order; the snapshot here is a mirror rebuilt from the diffs the
+ * worker sends back, and listeners see the same events as in-process.
+ * The map also gets the segment diffs and the live trace simplified for its
+ * zoom, so it can update its sources without rebuilding them.
+ */
+export class RemoteTrackingSession implements TrackingSessionApi {
+  private readonly worker: Worker;
+  private readonly loadWays: WayLoader;
+  private readonly listeners = new Set<TrackingListener>();
+  private readonly segmentListeners = new Set<SegmentPatchListener>();
+  private readonly traceListeners = new Set<() => void>();
+  private readonly segments = new Map<string, PaintedSegment>();
+  private snapshot: TrackingSnapshot = INITIAL_SNAPSHOT;
+  private trace: GeoJSON.MultiLineString = { type: 'MultiLineString', coordinates: [] };
+  // Moving time as of the last update, and when that arrived
+  private elapsedMs = 0;
+  private elapsedAt = 0;
+
+  constructor(loadWays: WayLoader, worker: Worker = createTrackingWorker()) {
+    this.loadWays = loadWays;
+    this.worker = worker;
+    this.worker.addEventListener('message', this.handleMessage);
+  }
+
+  getSnapshot = (): TrackingSnapshot => this.snapshot;
+
+  subscribe = (listener: TrackingListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Segments added or changed, as the worker reports them */
+  subscribeSegments = (listener: SegmentPatchListener): (() => void) => {
+    this.segmentListeners.add(listener);
+    return () => {
+      this.segmentListeners.delete(listener);
+    };
+  };
+
+  /** The live trace, simplified for the zoom set with `setTraceZoom` */
+  getTrace = (): GeoJSON.MultiLineString => this.trace;
+
+  subscribeTrace = (listener: () => void): (() => void) => {
+    this.traceListeners.add(listener);
+    return () => {
+      this.traceListeners.delete(listener);
+    };
+  };
+
+  setTraceZoom(zoom: number): void {
+    this.send({ type: 'zoom', zoom });
+  }
+
+  seed(seed: TrackingSeed): void {
+    this.send({ type: 'seed', seed });
+  }
+
+  loadSegments(segments: PaintedSegment[]): void {
+    if (segments.length === 0) return;
+    this.send({ type: 'load-segments', segments });
+  }
+
+  exportState(): SessionState {
+    const { state, traceParts, fixCount, rejections } = this.snapshot;
+    const running = state === 'tracking' ? Date.now() - this.elapsedAt : 0;
+    return { traceParts, fixCount, elapsedMs: this.elapsedMs + running, rejections };
+  }
+
+  restore(saved: SessionState): void {
+    this.send({ type: 'restore', saved });
+  }
+
+  start(): void {
+    this.send({ type: 'start' });
+  }
+
+  pause(): void {
+    this.send({ type: 'pause' });
+  }
+
+  resume(): void {
+    this.send({ type: 'resume' });
+  }
+
+  stop(): void {
+    this.send({ type: 'stop' });
+  }
+
+  reset(): void {
+    this.send({ type: 'reset' });
+  }
+
+  addFix(fix: RawFix): void {
+    this.send({ type: 'fix', fix });
+  }
+
+  setPrivacyZones(zones: PrivacyZone[]): void {
+    this.send({ type: 'privacy-zones', zones });
+  }
+
+  configure(settings: TrackingSettings): void {
+    this.send({ type: 'configure', settings });
+  }
+
+  /** Stops the worker's clock; the worker itself lives as long as the page */
+  dispose(): void {
+    this.send({ type: 'dispose' });
+  }
+
+  private send(command: TrackingCommand): void {
+    this.worker.postMessage(command);
+  }
+
+  private handleMessage = ({ data: message }: MessageEvent<TrackingMessage>) => {
+    switch (message.type) {
+      case 'update': {
+        this.snapshot = applySnapshotPatch(this.snapshot, message.patch, this.segments);
+        this.elapsedMs = message.elapsedMs;
+        this.elapsedAt = Date.now();
+
+        const segmentPatch = message.patch.segments;
+        if (segmentPatch) this.segmentListeners.forEach(listener => listener(segmentPatch));
+
+        const event = this.toEvent(message.event);
+        this.listeners.forEach(listener => listener(event, this.snapshot));
+        break;
+      }
+      case 'trace':
+        this.trace = {
+          type: 'MultiLineString',
+          coordinates: applyTraceGeometryPatch(this.trace.coordinates, message.parts)
+        };
+        this.traceListeners.forEach(listener => listener());
+        break;
+      case 'load-ways':
+        this.loadWays(message.bbox).then(
+          ways => this.send({ type: 'ways', requestId: message.requestId, ways }),
+          (error: unknown) => this.send({
+            type: 'ways-failed',
+            requestId: message.requestId,
+            message: error instanceof Error ? error.message : String(error)
+          })
+        );
+        break;
+    }
+  };
+
+  private toEvent(event: WireEvent): TrackingEvent {
+    return event.type === 'checkpoint' ? { type: 'checkpoint', traceParts: this.snapshot.traceParts } : event;
+  }
+}
@@ -0,0 +1,120 @@
+import { attachRoadNetwork, RoadNetwork } from '@/lib/roads/network';
+import type { RoadWay, WayLoader } from '@/lib/roads/types';
+import { TrackingSession, type TrackingEvent, type TrackingSnapshot } from '../session';
+import { TraceSimplifier } from '../simplify';
+import { createMirrorState, diffSnapshot, diffTraceGeometry } from './diff';
+import type { TrackingCommand, TrackingMessage, WireEvent } from './protocol';
+
+// Runs the tracking session off the UI thread. See protocol.ts for the messages.
+
+// The app is typed against the DOM lib; this is the part of the worker scope used here
+interface WorkerScope {
+  postMessage(message: TrackingMessage): void;
+  onmessage: ((event: MessageEvent<TrackingCommand>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const post = (message: TrackingMessage) => scope.postMessage(message);
+
+// Ways are fetched by the UI thread, which holds the signed-in Supabase client
+const wayRequests = new Map<number, { resolve: (ways: RoadWay[]) => void; reject: (error: Error) => void }>();
+let nextWayRequest = 0;
+
+const loadWays: WayLoader = bbox => new Promise((resolve, reject) => {
+  const requestId = nextWayRequest++;
+  wayRequests.set(requestId, { resolve, reject });
+  post({ type: 'load-ways', requestId, bbox });
+});
+
+const network = new RoadNetwork(loadWays);
+const session = new TrackingSession({ resolver: network });
+attachRoadNetwork(session, network);
+
+const simplifier = new TraceSimplifier();
+let zoom = 12;
+
+// What the UI's mirror holds
+let sent: TrackingSnapshot = session.getSnapshot();
+const mirror = createMirrorState(sent);
+let sentTrace: { version: number; zoom: number; coordinates: number[][][] } = {
+  version: sent.traceVersion,
+  zoom,
+  coordinates: []
+};
+
+const toWireEvent = (event: TrackingEvent): WireEvent =>
+  event.type === 'checkpoint' ? { type: 'checkpoint' } : event;
+
+session.subscribe((event, snapshot) => {
+  const patch = diffSnapshot(sent, snapshot, mirror);
+  sent = snapshot;
+  post({ type: 'update', patch, event: toWireEvent(event), elapsedMs: session.exportState().elapsedMs });
+});
+
+// LEVEL OF DETAIL: Only the recomputed tail of the simplified trace is posted
+const postTrace = () => {
+  const { traceParts, traceVersion } = session.getSnapshot();
+  if (traceVersion === sentTrace.version && zoom === sentTrace.zoom) return;
+
+  const { coordinates } = simplifier.simplify(traceParts, zoom);
+  post({ type: 'trace', parts: diffTraceGeometry(sentTrace.coordinates, coordinates) });
+  sentTrace = { version: traceVersion, zoom, coordinates };
+};
+
+const handle = (command: TrackingCommand) => {
+  switch (command.type) {
+    case 'seed':
+      session.seed(command.seed);
+      break;
+    case 'load-segments':
+      session.loadSegments(command.segments);
+      break;
+    case 'restore':
+      session.restore(command.saved);
+      break;
+    case 'start':
+      session.start();
+      break;
+    case 'pause':
+      session.pause();
+      break;
+    case 'resume':
+      session.resume();
+      break;
+    case 'stop':
+      session.stop();
+      break;
+    case 'reset':
+      session.reset();
+      break;
+    case 'dispose':
+      session.dispose();
+      break;
+    case 'fix':
+      session.addFix(command.fix);
+      break;
+    case 'privacy-zones':
+      session.setPrivacyZones(command.zones);
+      break;
+    case 'configure':
+      session.configure(command.settings);
+      break;
+    case 'zoom':
+      zoom = command.zoom;
+      break;
+    case 'ways':
+      wayRequests.get(command.requestId)?.resolve(command.ways);
+      wayRequests.delete(command.requestId);
+      break;
+    case 'ways-failed':
+      wayRequests.get(command.requestId)?.reject(new Error(command.message));
+      wayRequests.delete(command.requestId);
+      break;
+  }
+};
+
+scope.onmessage = (event: MessageEvent<TrackingCommand>) => {
+  handle(event.data);
+  postTrace();
+};
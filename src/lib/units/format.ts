@@ -0,0 +1,112 @@
+/** Unit systems distances and speeds are shown in, stored in `users.preferences.units` */
+export const UNIT_SYSTEMS = ['metric', 'imperial', 'nautical'] as const;
+
+export type UnitSystem = typeof UNIT_SYSTEMS[number];
+
+export const DEFAULT_UNITS: UnitSystem = 'metric';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'Metric (km)',
+  imperial: 'Imperial (mi)',
+  nautical: 'Nautical (nmi)'
+};
+
+interface Unit {
+  symbol: string;
+  /** Metres (or metres per second, for speeds) in one of this unit */
+  size: number;
+}
+
+interface UnitSystemSpec {
+  distance: Unit;
+  /** Distances shorter than this (m) are given in `length` units */
+  shortBelow: number;
+  /** Short lengths: elevations, GPS accuracy, thresholds */
+  length: Unit;
+  speed: Unit;
+}
+
+const METER: Unit = { symbol: 'm', size: 1 };
+
+const UNITS: Record<UnitSystem, UnitSystemSpec> = {
+  metric: {
+    distance: { symbol: 'km', size: 1000 },
+    shortBelow: 1000,
+    length: METER,
+    speed: { symbol: 'km/h', size: 1000 / 3600 }
+  },
+  imperial: {
+    distance: { symbol: 'mi', size: 1609.344 },
+    shortBelow: 160.9344,
+    length: { symbol: 'ft', size: 0.3048 },
+    speed: { symbol: 'mph', size: 1609.344 / 3600 }
+  },
+  nautical: {
+    distance: { symbol: 'nmi', size: 1852 },
+    shortBelow: 185.2,
+    length: METER,
+    speed: { symbol: 'kn', size: 1852 / 3600 }
+  }
+};
+
+// Intl.NumberFormat is slow to construct and the HUD formats every second
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+// An undefined locale means the browser's
+const formatNumber = (value: number, locale: string | undefined, options: Intl.NumberFormatOptions = {}): string => {
+  const key = `${locale ?? ''}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+const withUnit = (value: number, unit: Unit, digits: number, locale?: string): string =>
+  `${formatNumber(value / unit.size, locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${unit.symbol}`;
+
+/** A distance travelled, e.g. "850 m", "3.2 km" or "2.0 mi" */
+export const formatDistance = (meters: number, units: UnitSystem = DEFAULT_UNITS, locale?: string): string => {
+  const spec = UNITS[units];
+  return meters < spec.shortBelow
+    ? withUnit(meters, spec.length, 0, locale)
+    : withUnit(meters, spec.distance, 1, locale);
+};
+
+/** A short length in whole metres or feet, such as GPS accuracy or a threshold */
+export const formatLength = (meters: number, units: UnitSystem = DEFAULT_UNITS, locale?: string): string =>
+  withUnit(meters, UNITS[units].length, 0, locale);
+
+/** An altitude or climb; fixes without one show a dash */
+export const formatElevation = (meters: number | null | undefined, units: UnitSystem = DEFAULT_UNITS, locale?: string): string =>
+  meters === null || meters === undefined || !Number.isFinite(meters) ? '–' : formatLength(meters, units, locale);
+
+export const formatSpeed = (metersPerSecond: number, units: UnitSystem = DEFAULT_UNITS, locale?: string): string =>
+  withUnit(metersPerSecond, UNITS[units].speed, 1, locale);
+
+// Below this speed (m/s) the user is standing still and pace would run into hours
+const MIN_PACE_SPEED = 0.3;
+
+/** Time per distance unit, as runners count it, e.g. "5:30 /km" or "8:51 /mi" */
+export const formatPace = (metersPerSecond: number, units: UnitSystem = DEFAULT_UNITS): string => {
+  const { distance } = UNITS[units];
+  if (!(metersPerSecond >= MIN_PACE_SPEED)) return `– /${distance.symbol}`;
+
+  const seconds = Math.round(distance.size / metersPerSecond);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')} /${distance.symbol}`;
+};
+
+const durationPart = (value: number, unit: 'hour' | 'minute' | 'second', locale?: string): string =>
+  formatNumber(value, locale, { style: 'unit', unit, unitDisplay: 'narrow' });
+
+/** Elapsed time to the minute, e.g. "1h 5m" in English; under a minute, in seconds */
+export const formatDuration = (seconds: number, locale?: string): string => {
+  if (seconds < 60) return durationPart(Math.floor(Math.max(seconds, 0)), 'second', locale);
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours === 0) return durationPart(minutes, 'minute', locale);
+  return `${durationPart(hours, 'hour', locale)} ${durationPart(minutes, 'minute', locale)}`;
+};
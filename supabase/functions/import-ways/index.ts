@@ -0,0 +1,88 @@
+// Road network importer: loads OSM ways into the ways table.
+//
+// Environment:
+//   OVERPASS_URL  Overpass API endpoint (default https://overpass-api.de/api/interpreter)
+//
+// Request body, one of:
+//   { "bbox": [minLng, minLat, maxLng, maxLat] }  fetch the area from Overpass
+//   { "elements": [...] }                         an Overpass JSON response
+//   { "type": "FeatureCollection", ... }          GeoJSON, e.g. from a PBF via
+//                                                 `osmium export --attributes=type,id`
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { overpassQuery, parseOsm, type WayRow } from './osm.ts';
+
+const BATCH_SIZE = 500;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+const overpassUrl = Deno.env.get('OVERPASS_URL') ?? 'https://overpass-api.de/api/interpreter';
+
+const isBBox = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const fetchOverpass = async (bbox: number[]): Promise<unknown> => {
+  const response = await fetch(overpassUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ data: overpassQuery(bbox) })
+  });
+  if (!response.ok) throw new Error(`Overpass responded ${response.status}`);
+  return response.json();
+};
+
+const upsertWays = async (rows: WayRow[]): Promise<void> => {
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    // Re-importing an area refreshes names and geometry of known ways
+    const { error } = await supabase
+      .from('ways')
+      .upsert(rows.slice(start, start + BATCH_SIZE), { onConflict: 'id' });
+    if (error) throw error;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+  // The road network is shared by every user, so only admins may change it
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  let body: { bbox?: unknown } & Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  try {
+    let source: unknown = body;
+    if (body.bbox !== undefined) {
+      if (!isBBox(body.bbox)) return json({ error: 'bbox must be [minLng, minLat, maxLng, maxLat]' }, 400);
+      source = await fetchOverpass(body.bbox);
+    }
+
+    const rows = parseOsm(source);
+    await upsertWays(rows);
+    return json({ imported: rows.length });
+  } catch (error) {
+    console.error('Failed to import ways:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
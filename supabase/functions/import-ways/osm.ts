@@ -0,0 +1,128 @@
+// Parses OSM road data into rows for the ways table. Accepts Overpass JSON
+// (`out geom`, or ways with node refs plus the nodes) and GeoJSON as written
+// by `osmium export --attributes=type,id` from a PBF extract.
+
+export interface WayRow {
+  id: number;
+  name: string | null;
+  highway: string;
+  geometry: { type: 'LineString'; coordinates: number[][] };
+  length_meters: number;
+  min_lat: number;
+  min_lng: number;
+  max_lat: number;
+  max_lng: number;
+}
+
+// Highway classes someone can travel along; excludes proposed/construction,
+// platforms, bus stops and other non-road features
+export const ROAD_CLASSES = new Set([
+  'motorway', 'motorway_link', 'trunk', 'trunk_link',
+  'primary', 'primary_link', 'secondary', 'secondary_link',
+  'tertiary', 'tertiary_link', 'unclassified', 'residential',
+  'living_street', 'service', 'pedestrian', 'track', 'road',
+  'footway', 'cycleway', 'path', 'bridleway', 'steps'
+]);
+
+/** Overpass QL for every road way in a [minLng, minLat, maxLng, maxLat] box */
+export const overpassQuery = ([minLng, minLat, maxLng, maxLat]: number[]): string =>
+  `[out:json][timeout:180];way["highway"~"^(${[...ROAD_CLASSES].join('|')})$"]` +
+  `(${minLat},${minLng},${maxLat},${maxLng});out geom tags;`;
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  geometry?: Array<{ lat: number; lon: number } | null>;
+  tags?: Record<string, string>;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+// Haversine, as in the client's geo helpers
+const distance = ([lng1, lat1]: number[], [lng2, lat2]: number[]): number => {
+  const R = 6371e3;
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const toRow = (id: number, tags: Record<string, unknown>, coordinates: number[][]): WayRow | null => {
+  const highway = typeof tags.highway === 'string' ? tags.highway : null;
+  if (!highway || !ROAD_CLASSES.has(highway) || coordinates.length < 2) return null;
+
+  const lngs = coordinates.map(([lng]) => lng);
+  const lats = coordinates.map(([, lat]) => lat);
+
+  return {
+    id,
+    name: typeof tags.name === 'string' ? tags.name : null,
+    highway,
+    geometry: { type: 'LineString', coordinates },
+    length_meters: coordinates.slice(1).reduce((sum, point, i) => sum + distance(coordinates[i], point), 0),
+    min_lat: Math.min(...lats),
+    min_lng: Math.min(...lngs),
+    max_lat: Math.max(...lats),
+    max_lng: Math.max(...lngs)
+  };
+};
+
+export const parseOverpass = (elements: OverpassElement[]): WayRow[] => {
+  const nodes = new Map<number, number[]>();
+  elements.forEach(element => {
+    if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+      nodes.set(element.id, [element.lon, element.lat]);
+    }
+  });
+
+  return elements
+    .filter(element => element.type === 'way')
+    .map(way => {
+      // `out geom` inlines coordinates; plain `out` needs the referenced nodes
+      const coordinates = way.geometry
+        ? way.geometry.filter(point => point !== null).map(point => [point!.lon, point!.lat])
+        : (way.nodes ?? []).map(id => nodes.get(id)).filter((point): point is number[] => !!point);
+      return toRow(way.id, way.tags ?? {}, coordinates);
+    })
+    .filter((row): row is WayRow => row !== null);
+};
+
+// osmium writes "@type": "way", "@id": 123; other tools use "w123" or "way/123"
+const wayIdOf = (feature: GeoJsonFeature): number | null => {
+  const properties = feature.properties ?? {};
+  if (properties['@type'] !== undefined && properties['@type'] !== 'way') return null;
+
+  const raw = properties['@id'] ?? properties.osm_id ?? feature.id;
+  const match = String(raw ?? '').match(/^(?:w|way\/)?(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+export const parseGeoJson = (features: GeoJsonFeature[]): WayRow[] =>
+  features
+    .map(feature => {
+      if (feature.geometry?.type !== 'LineString') return null;
+      const id = wayIdOf(feature);
+      if (id === null) return null;
+      return toRow(id, feature.properties ?? {}, feature.geometry.coordinates as number[][]);
+    })
+    .filter((row): row is WayRow => row !== null);
+
+/** Rows from an Overpass response or a GeoJSON FeatureCollection */
+export const parseOsm = (body: unknown): WayRow[] => {
+  if (typeof body !== 'object' || body === null) return [];
+  const data = body as { elements?: OverpassElement[]; type?: string; features?: GeoJsonFeature[] };
+
+  if (Array.isArray(data.elements)) return parseOverpass(data.elements);
+  if (data.type === 'FeatureCollection' && Array.isArray(data.features)) return parseGeoJson(data.features);
+  return [];
+};
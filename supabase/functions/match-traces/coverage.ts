@@ -0,0 +1,130 @@
+// Which sub-edges of which ways a snapped trace travelled along. Mirrors the
+// app's src/lib/roads/coverage.ts: ways are split into ~25 m sub-edges.
+
+export const SUB_EDGE_LENGTH = 25;
+
+/** Snapped lines sit on the road, so only ways this close (m) count */
+const MAX_DISTANCE = 8;
+
+/** Snapped lines are resampled at this spacing (m) */
+const SAMPLE_SPACING = 5;
+
+/** A run along a way must span this many samples; crossing a street isn't travelling it */
+const MIN_RUN_SAMPLES = 3;
+
+export interface WayGeometry {
+  id: number;
+  geometry: { type: 'LineString'; coordinates: number[][] };
+  length_meters: number;
+}
+
+export interface WayCoverage {
+  edgeCount: number;
+  edges: number[];
+}
+
+const METERS_PER_DEGREE = 111_320;
+
+export const edgeCountOf = (length: number): number =>
+  Math.max(1, Math.ceil(length / SUB_EDGE_LENGTH));
+
+// Distance to, and fraction along, a [lng, lat] polyline (local flat-earth projection)
+const project = ([lng, lat]: number[], coordinates: number[][]): { distance: number; fraction: number } => {
+  const kx = METERS_PER_DEGREE * Math.cos(lat * Math.PI / 180);
+  const toLocal = ([x, y]: number[]) => [(x - lng) * kx, (y - lat) * METERS_PER_DEGREE];
+
+  let best = { distance: Infinity, along: 0 };
+  let travelled = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [ax, ay] = toLocal(coordinates[i - 1]);
+    const [bx, by] = toLocal(coordinates[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.min(Math.max(-(ax * dx + ay * dy) / lengthSq, 0), 1) : 0;
+    const distance = Math.hypot(ax + t * dx, ay + t * dy);
+    if (distance < best.distance) best = { distance, along: travelled + t * Math.sqrt(lengthSq) };
+    travelled += Math.sqrt(lengthSq);
+  }
+  return { distance: best.distance, fraction: travelled > 0 ? best.along / travelled : 0 };
+};
+
+// Points every SAMPLE_SPACING meters along a line, vertices included
+const resample = (line: number[][]): number[][] => {
+  const samples: number[][] = [];
+  for (let i = 1; i < line.length; i++) {
+    const [lng1, lat1] = line[i - 1];
+    const [lng2, lat2] = line[i];
+    const kx = METERS_PER_DEGREE * Math.cos(lat1 * Math.PI / 180);
+    const length = Math.hypot((lng2 - lng1) * kx, (lat2 - lat1) * METERS_PER_DEGREE);
+    const steps = Math.max(1, Math.ceil(length / SAMPLE_SPACING));
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      samples.push([lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t]);
+    }
+  }
+  if (line.length > 0) samples.push(line[line.length - 1]);
+  return samples;
+};
+
+/** Sub-edges covered by a set of snapped lines, keyed by way id */
+export const coverageOf = (lines: number[][][], ways: WayGeometry[]): Map<number, WayCoverage> => {
+  const covered = new Map<number, Set<number>>();
+
+  const addRun = (way: WayGeometry, fractions: number[]) => {
+    if (fractions.length < MIN_RUN_SAMPLES) return;
+    const edgeCount = edgeCountOf(way.length_meters);
+    const edgeAt = (fraction: number) => Math.min(Math.max(Math.floor(fraction * edgeCount), 0), edgeCount - 1);
+    const from = edgeAt(Math.min(...fractions));
+    const to = edgeAt(Math.max(...fractions));
+
+    const edges = covered.get(way.id) ?? new Set<number>();
+    for (let edge = from; edge <= to; edge++) edges.add(edge);
+    covered.set(way.id, edges);
+  };
+
+  lines.forEach(line => {
+    let run: { way: WayGeometry; fractions: number[] } | null = null;
+
+    resample(line).forEach(sample => {
+      let nearest: { way: WayGeometry; distance: number; fraction: number } | null = null;
+      for (const way of ways) {
+        const { distance, fraction } = project(sample, way.geometry.coordinates);
+        if (distance <= MAX_DISTANCE && (!nearest || distance < nearest.distance)) {
+          nearest = { way, distance, fraction };
+        }
+      }
+
+      if (run && nearest && nearest.way.id === run.way.id) {
+        run.fractions.push(nearest.fraction);
+        return;
+      }
+      if (run) addRun(run.way, run.fractions);
+      run = nearest ? { way: nearest.way, fractions: [nearest.fraction] } : null;
+    });
+
+    if (run) addRun(run.way, run.fractions);
+  });
+
+  const byWay = new Map<number, WayCoverage>();
+  covered.forEach((edges, id) => {
+    const way = ways.find(candidate => candidate.id === id)!;
+    byWay.set(id, {
+      edgeCount: edgeCountOf(way.length_meters),
+      edges: Array.from(edges).sort((a, b) => a - b)
+    });
+  });
+  return byWay;
+};
+
+/** [minLng, minLat, maxLng, maxLat] around a set of lines, padded by MAX_DISTANCE */
+export const boundsOf = (lines: number[][][]): [number, number, number, number] => {
+  const points = lines.flat();
+  const pad = MAX_DISTANCE / METERS_PER_DEGREE * 2;
+  return [
+    Math.min(...points.map(([lng]) => lng)) - pad,
+    Math.min(...points.map(([, lat]) => lat)) - pad,
+    Math.max(...points.map(([lng]) => lng)) + pad,
+    Math.max(...points.map(([, lat]) => lat)) + pad
+  ];
+};
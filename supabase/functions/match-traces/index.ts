@@ -0,0 +1,179 @@
+// Map-matching worker: snaps unprocessed traces to the road network, stores
+// the result in traces.snapped_geometry and records the sub-edges it travelled
+// as segment visits attributed to the trace.
+//
+// Environment:
+//   OSRM_URL      OSRM-compatible server (default http://localhost:5000)
+//   OSRM_PROFILE  routing profile (default driving)
+//
+// Requires the service-role key as the bearer token.
+// Request body (all optional): { "limit": 10, "quietSeconds": 300, "traceId": "..." }
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { boundsOf, coverageOf, type WayGeometry } from './coverage.ts';
+import { DEFAULT_MATCH_OPTIONS, matchTrace, type MatchOptions, type TracePoint } from './osrm.ts';
+
+interface MatchRequest {
+  /** Traces to process per invocation */
+  limit?: number;
+  /** Skip traces that received points more recently than this */
+  quietSeconds?: number;
+  /** Process just this trace, even if it was updated recently */
+  traceId?: string;
+}
+
+interface TraceResult {
+  traceId: string;
+  status: 'matched' | 'unmatched' | 'superseded' | 'failed';
+  lines?: number;
+  /** Ways whose coverage was updated */
+  ways?: number;
+  error?: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const isPoint = (value: unknown): value is TracePoint =>
+  typeof value === 'object' && value !== null && 'lat' in value && 'lng' in value && 'timestamp' in value;
+
+// Same formats as the client's parseTracePoints: parts, or a legacy flat array
+const parseParts = (points: unknown): TracePoint[][] => {
+  if (!Array.isArray(points) || points.length === 0) return [];
+  if (points.every(isPoint)) return [points];
+  return points
+    .filter((part): part is unknown[] => Array.isArray(part))
+    .map(part => part.filter(isPoint));
+};
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+const matchOptions: MatchOptions = {
+  ...DEFAULT_MATCH_OPTIONS,
+  baseUrl: Deno.env.get('OSRM_URL') ?? 'http://localhost:5000',
+  profile: Deno.env.get('OSRM_PROFILE') ?? DEFAULT_MATCH_OPTIONS.profile
+};
+
+// Visits are keyed by segment and trace and coverage is a union, so recording
+// them again on a re-match is harmless
+const recordVisits = async (
+  trace: { id: string; user_id: string },
+  lines: number[][][],
+  visitedAt: string
+): Promise<number> => {
+  const [minLng, minLat, maxLng, maxLat] = boundsOf(lines);
+  const { data: ways, error } = await supabase.rpc('get_ways_in_bbox', {
+    p_min_lng: minLng,
+    p_min_lat: minLat,
+    p_max_lng: maxLng,
+    p_max_lat: maxLat
+  });
+  if (error) throw error;
+
+  const coverage = coverageOf(lines, (ways ?? []) as WayGeometry[]);
+  for (const [wayId, { edgeCount, edges }] of coverage) {
+    // Direction and distance come from the live session, when there was one
+    const { error: visitError } = await supabase.rpc('record_segment_visit', {
+      p_user_id: trace.user_id,
+      p_osm_way_id: String(wayId),
+      p_trace_id: trace.id,
+      p_visited_at: visitedAt,
+      p_direction: 0,
+      p_distance_meters: 0,
+      p_edge_count: edgeCount,
+      p_edges: edges
+    });
+    if (visitError) throw visitError;
+  }
+  return coverage.size;
+};
+
+const processTrace = async (trace: { id: string; user_id: string; updated_at: string }): Promise<TraceResult> => {
+  try {
+    const { data: points, error: pointsError } = await supabase
+      .rpc('get_trace_points', { p_trace_id: trace.id });
+    if (pointsError) throw pointsError;
+
+    const parts = parseParts(points);
+    const lines = await matchTrace(parts, matchOptions);
+    const firstPoint = parts.find(part => part.length > 0)?.[0];
+    const visitedAt = new Date(firstPoint?.timestamp ?? Date.now()).toISOString();
+    // Before marking the trace processed, so a failure here is retried
+    const ways = lines.length > 0 ? await recordVisits(trace, lines, visitedAt) : 0;
+
+    // Only mark processed if no points arrived while matching; otherwise the
+    // trace stays queued and is matched again with the new points
+    const { data: updated, error: updateError } = await supabase
+      .from('traces')
+      .update({
+        snapped_geometry: lines.length > 0 ? { type: 'MultiLineString', coordinates: lines } : null,
+        processed: true
+      })
+      .eq('id', trace.id)
+      .eq('updated_at', trace.updated_at)
+      .select('id');
+    if (updateError) throw updateError;
+
+    if (!updated || updated.length === 0) return { traceId: trace.id, status: 'superseded' };
+    if (lines.length === 0) return { traceId: trace.id, status: 'unmatched', lines: 0 };
+    return { traceId: trace.id, status: 'matched', lines: lines.length, ways };
+  } catch (error) {
+    console.error(`Failed to match trace ${trace.id}:`, error);
+    return { traceId: trace.id, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  // Matches any user's traces and loads the matching server, so only the scheduler may call it
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  let request: MatchRequest = {};
+  try {
+    if (req.headers.get('content-type')?.includes('application/json')) {
+      request = await req.json();
+    }
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const limit = Math.min(Math.max(request.limit ?? 10, 1), 100);
+  const quietSeconds = request.quietSeconds ?? 300;
+
+  let query = supabase
+    .from('traces')
+    .select('id, user_id, updated_at')
+    .eq('processed', false)
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+
+  if (request.traceId) {
+    query = query.eq('id', request.traceId);
+  } else {
+    // Give active sessions time to finish before matching them
+    query = query.lt('updated_at', new Date(Date.now() - quietSeconds * 1000).toISOString());
+  }
+
+  const { data: traces, error } = await query;
+  if (error) return json({ error: error.message }, 500);
+
+  // Sequentially, to stay within the matching server's capacity
+  const results: TraceResult[] = [];
+  for (const trace of traces ?? []) {
+    results.push(await processTrace(trace));
+  }
+
+  return json({ processed: results.length, results });
+});
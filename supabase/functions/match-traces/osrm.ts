@@ -0,0 +1,105 @@
+// Client for the OSRM /match service (or anything that speaks its API)
+
+export interface TracePoint {
+  lat: number;
+  lng: number;
+  /** ms since epoch */
+  timestamp: number;
+  accuracy?: number | null;
+}
+
+export interface MatchOptions {
+  /** e.g. http://localhost:5000 */
+  baseUrl: string;
+  profile: string;
+  /** OSRM rejects requests above its --max-matching-size (default 100) */
+  maxPoints: number;
+  /** Search radius (m) per point is the fix accuracy, clamped to this range */
+  minRadius: number;
+  maxRadius: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: Omit<MatchOptions, 'baseUrl'> = {
+  profile: 'driving',
+  maxPoints: 100,
+  minRadius: 5,
+  maxRadius: 50
+};
+
+interface OsrmMatchResponse {
+  code: string;
+  message?: string;
+  matchings?: Array<{ geometry: { type: 'LineString'; coordinates: number[][] }; confidence: number }>;
+}
+
+export class MatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MatchError';
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// OSRM wants strictly increasing whole-second timestamps
+const toTimestamps = (points: TracePoint[]): number[] => {
+  let previous = -Infinity;
+  return points.map(point => {
+    const seconds = Math.max(Math.round(point.timestamp / 1000), previous + 1);
+    previous = seconds;
+    return seconds;
+  });
+};
+
+const matchBatch = async (points: TracePoint[], options: MatchOptions): Promise<number[][][]> => {
+  const coordinates = points.map(point => `${point.lng.toFixed(6)},${point.lat.toFixed(6)}`).join(';');
+  const params = new URLSearchParams({
+    geometries: 'geojson',
+    overview: 'full',
+    // Split where the trace has gaps instead of routing across them
+    gaps: 'split',
+    tidy: 'true',
+    timestamps: toTimestamps(points).join(';'),
+    radiuses: points
+      .map(point => clamp(point.accuracy ?? options.maxRadius, options.minRadius, options.maxRadius).toFixed(1))
+      .join(';')
+  });
+
+  const url = `${options.baseUrl.replace(/\/$/, '')}/match/v1/${options.profile}/${coordinates}?${params}`;
+  const response = await fetch(url);
+  const body = await response.json() as OsrmMatchResponse;
+
+  // Nothing nearby to snap to (e.g. a stretch through a park)
+  if (body.code === 'NoMatch' || body.code === 'NoSegment') return [];
+  if (body.code !== 'Ok') {
+    throw new MatchError(`${body.code}: ${body.message ?? response.statusText}`);
+  }
+
+  return (body.matchings ?? [])
+    .map(matching => matching.geometry.coordinates)
+    .filter(line => line.length > 1);
+};
+
+/**
+ * Snap a single trace part to the road network. Long parts are matched in
+ * batches that share their boundary point, so consecutive lines meet.
+ */
+export const matchPart = async (points: TracePoint[], options: MatchOptions): Promise<number[][][]> => {
+  if (points.length < 2) return [];
+
+  const lines: number[][][] = [];
+  for (let start = 0; start < points.length - 1; start += options.maxPoints - 1) {
+    const batch = points.slice(start, start + options.maxPoints);
+    lines.push(...await matchBatch(batch, options));
+  }
+  return lines;
+};
+
+/** Snap every part of a trace; the result is a MultiLineString's coordinates */
+export const matchTrace = async (parts: TracePoint[][], options: MatchOptions): Promise<number[][][]> => {
+  const lines: number[][][] = [];
+  for (const part of parts) {
+    lines.push(...await matchPart(part, options));
+  }
+  return lines;
+};
@@ -0,0 +1,83 @@
+// Vector tiles of the signed-in user's painted segments, rendered by
+// get_segment_tile with ST_AsMVT. The map switches to these once a user has
+// too many segments to draw from GeoJSON.
+//
+// GET /segment-tiles/{z}/{x}/{y}?v=<version>, with the user's access token.
+// The version only busts caches; the app bumps it after segments are written.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// PostgREST returns bytea as a hex string: \x1a2b...
+const fromHex = (value: string): Uint8Array => {
+  const hex = value.startsWith('\\x') ? value.slice(2) : value;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const parseTile = (pathname: string): { z: number; x: number; y: number } | null => {
+  const match = pathname.match(/\/(\d+)\/(\d+)\/(\d+)(?:\.mvt|\.pbf)?$/);
+  if (!match) return null;
+
+  const [z, x, y] = match.slice(1).map(Number);
+  const size = 2 ** z;
+  if (z > 24 || x >= size || y >= size) return null;
+  return { z, x, y };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const tile = parseTile(new URL(req.url).pathname);
+  if (!tile) {
+    return json({ error: 'Expected /segment-tiles/{z}/{x}/{y}' }, 400);
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization' }, 401);
+  }
+
+  // Queried as the user, so the tile only holds their segments
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data, error } = await supabase.rpc('get_segment_tile', {
+    p_z: tile.z,
+    p_x: tile.x,
+    p_y: tile.y
+  });
+  if (error) {
+    console.error('Failed to render segment tile:', tile, error);
+    return json({ error: error.message }, 500);
+  }
+
+  return new Response(fromHex(data ?? ''), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/vnd.mapbox-vector-tile',
+      // Per user, and versioned by the app, so it can be kept until the version changes
+      'Cache-Control': 'private, max-age=86400'
+    }
+  });
+});
@@ -0,0 +1,4 @@
+-- Traces are stored as one array of points per uninterrupted part so that
+-- pause gaps are never bridged. Legacy rows hold a single flat array.
+COMMENT ON COLUMN public.traces.points IS
+  'Array of parts, each an array of {lat, lng, timestamp, accuracy}; legacy rows are a flat array of points';
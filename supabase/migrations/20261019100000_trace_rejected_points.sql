@@ -0,0 +1,6 @@
+-- Audit log of fixes the client rejected as outliers for each trace
+ALTER TABLE public.traces
+  ADD COLUMN rejected_points JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.traces.rejected_points IS
+  'Array of {lat, lng, timestamp, accuracy, reason, speed, acceleration, heading_change}';
@@ -0,0 +1,4 @@
+-- Trace points now carry the fix's own time and the full set of
+-- GeolocationCoordinates fields instead of a save-time timestamp
+COMMENT ON COLUMN public.traces.points IS
+  'Array of parts, each an array of {lat, lng, timestamp, accuracy, altitude, altitudeAccuracy, heading, speed} (timestamp in ms since epoch, as reported by the device); legacy rows are a flat array of points';
@@ -0,0 +1,63 @@
+-- Append-only storage for trace points: each save inserts only the points
+-- recorded since the previous one instead of rewriting traces.points
+CREATE TABLE public.trace_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trace_id UUID NOT NULL REFERENCES public.traces ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  sequence INTEGER NOT NULL, -- Order of chunks within the trace
+  part INTEGER NOT NULL DEFAULT 0, -- Trace part (pause gaps start a new part)
+  points JSONB NOT NULL, -- Array of {lat, lng, timestamp, accuracy, ...}
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (trace_id, sequence)
+);
+
+-- Enable RLS
+ALTER TABLE public.trace_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own chunks; chunks are never updated
+CREATE POLICY "Users can view their own trace chunks" 
+ON public.trace_chunks 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Chunks may only be appended to the caller's own traces
+CREATE POLICY "Users can insert their own trace chunks" 
+ON public.trace_chunks 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.traces t WHERE t.id = trace_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own trace chunks" 
+ON public.trace_chunks 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_trace_chunks_user_id ON public.trace_chunks(user_id);
+
+-- New traces keep their points in chunks
+ALTER TABLE public.traces ALTER COLUMN points SET DEFAULT '[]'::jsonb;
+
+-- Reassemble a trace's points as an array of parts, falling back to
+-- traces.points for traces saved before chunking
+CREATE OR REPLACE FUNCTION public.get_trace_points(p_trace_id UUID)
+RETURNS JSONB
+STABLE
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(part_points ORDER BY part)
+      FROM (
+        SELECT c.part, jsonb_agg(p.point ORDER BY c.sequence, p.ord) AS part_points
+        FROM public.trace_chunks c
+        CROSS JOIN LATERAL jsonb_array_elements(c.points) WITH ORDINALITY AS p(point, ord)
+        WHERE c.trace_id = p_trace_id
+        GROUP BY c.part
+      ) parts
+    ),
+    (SELECT t.points FROM public.traces t WHERE t.id = p_trace_id)
+  );
+$$;
@@ -0,0 +1,24 @@
+-- Map matching writes one line per matched stretch of the trace
+COMMENT ON COLUMN public.traces.snapped_geometry IS
+  'GeoJSON MultiLineString matched to the road network, one line per matched stretch';
+
+-- Appending points invalidates any previous match. Bumping updated_at (via
+-- update_traces_updated_at) also lets the matcher wait for a quiet period
+CREATE OR REPLACE FUNCTION public.mark_trace_unprocessed()
+RETURNS TRIGGER
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE public.traces SET processed = false WHERE id = NEW.trace_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_trace_unprocessed_on_chunk
+  AFTER INSERT ON public.trace_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_trace_unprocessed();
+
+-- The matcher polls for the oldest unprocessed traces
+CREATE INDEX idx_traces_unprocessed ON public.traces(updated_at) WHERE NOT processed;
@@ -0,0 +1,55 @@
+-- Road network imported from OpenStreetMap (see the import-ways function).
+-- Shared reference data: readable by everyone, written with the service role
+CREATE TABLE public.ways (
+  id BIGINT NOT NULL PRIMARY KEY, -- OSM way id
+  name TEXT,
+  highway TEXT NOT NULL, -- OSM highway class
+  geometry JSONB NOT NULL, -- GeoJSON LineString
+  length_meters REAL NOT NULL,
+  -- Bounding box, for viewport and nearby-way queries
+  min_lat DOUBLE PRECISION NOT NULL,
+  min_lng DOUBLE PRECISION NOT NULL,
+  max_lat DOUBLE PRECISION NOT NULL,
+  max_lng DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.ways ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ways" 
+ON public.ways 
+FOR SELECT 
+USING (true);
+
+CREATE INDEX idx_ways_bbox ON public.ways(min_lat, max_lat, min_lng, max_lng);
+
+CREATE TRIGGER update_ways_updated_at
+  BEFORE UPDATE ON public.ways
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- segments.osm_way_id now holds real way ids; older rows keep their grid cell keys
+COMMENT ON COLUMN public.segments.osm_way_id IS
+  'OSM way id (ways.id); segments painted before the road network was imported hold a lat_lng grid cell key';
+
+-- Ways whose bounding box intersects the given one
+CREATE OR REPLACE FUNCTION public.get_ways_in_bbox(
+  p_min_lng DOUBLE PRECISION,
+  p_min_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION
+)
+RETURNS SETOF public.ways
+STABLE
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT *
+  FROM public.ways w
+  WHERE w.max_lat >= p_min_lat
+    AND w.min_lat <= p_max_lat
+    AND w.max_lng >= p_min_lng
+    AND w.min_lng <= p_max_lng;
+$$;
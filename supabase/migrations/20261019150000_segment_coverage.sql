@@ -0,0 +1,52 @@
+-- Partial coverage: each way is split into fixed-length (~25 m) sub-edges and
+-- a segment records which of them the user has travelled
+ALTER TABLE public.segments
+  ADD COLUMN edge_count INTEGER, -- NULL for grid-cell segments painted before ways
+  ADD COLUMN covered_edges INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN completion REAL GENERATED ALWAYS AS (
+    CASE WHEN edge_count > 0 THEN LEAST(cardinality(covered_edges)::real / edge_count, 1) END
+  ) STORED; -- 0..1
+
+-- Union sub-edges into a user's segment for a way, creating the segment from
+-- the road network if the user hasn't painted the way yet. Called by the app
+-- as it paints and by the map-matching worker with coverage from snapped traces
+CREATE OR REPLACE FUNCTION public.merge_segment_coverage(
+  p_user_id UUID,
+  p_osm_way_id TEXT,
+  p_edge_count INTEGER,
+  p_edges INTEGER[]
+)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE public.segments s
+  SET edge_count = p_edge_count,
+      covered_edges = ARRAY(
+        SELECT DISTINCT e
+        FROM unnest(s.covered_edges || p_edges) AS e
+        WHERE e >= 0 AND e < p_edge_count
+        ORDER BY e
+      )
+  WHERE s.user_id = p_user_id AND s.osm_way_id = p_osm_way_id;
+
+  IF NOT FOUND AND p_osm_way_id ~ '^\d+$' THEN
+    INSERT INTO public.segments (user_id, osm_way_id, geometry, distance_meters, edge_count, covered_edges)
+    SELECT
+      p_user_id,
+      p_osm_way_id,
+      w.geometry,
+      w.length_meters,
+      p_edge_count,
+      ARRAY(
+        SELECT DISTINCT e
+        FROM unnest(p_edges) AS e
+        WHERE e >= 0 AND e < p_edge_count
+        ORDER BY e
+      )
+    FROM public.ways w
+    WHERE w.id = p_osm_way_id::BIGINT;
+  END IF;
+END;
+$$;
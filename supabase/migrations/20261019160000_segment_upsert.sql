@@ -0,0 +1,93 @@
+-- One segment per user and way. Earlier clients inserted a new row on every
+-- revisit, so fold duplicates into the oldest row before adding the constraint
+
+-- Keep the first-visited row of each (user_id, osm_way_id) group
+CREATE TEMPORARY TABLE segment_keepers ON COMMIT DROP AS
+SELECT DISTINCT ON (user_id, osm_way_id) id, user_id, osm_way_id
+FROM public.segments
+ORDER BY user_id, osm_way_id, first_visited_at, created_at, id;
+
+-- Every duplicate row was one visit
+UPDATE public.segments s
+SET visit_count = merged.visit_count,
+    first_visited_at = merged.first_visited_at,
+    last_visited_at = merged.last_visited_at,
+    distance_meters = merged.distance_meters,
+    edge_count = merged.edge_count,
+    covered_edges = merged.covered_edges
+FROM (
+  SELECT
+    k.id,
+    SUM(d.visit_count)::INTEGER AS visit_count,
+    MIN(d.first_visited_at) AS first_visited_at,
+    MAX(d.last_visited_at) AS last_visited_at,
+    MAX(d.distance_meters) AS distance_meters,
+    MAX(d.edge_count) AS edge_count,
+    ARRAY(
+      SELECT DISTINCT e
+      FROM public.segments c, unnest(c.covered_edges) AS e
+      WHERE c.user_id = k.user_id AND c.osm_way_id = k.osm_way_id
+      ORDER BY e
+    ) AS covered_edges
+  FROM segment_keepers k
+  JOIN public.segments d ON d.user_id = k.user_id AND d.osm_way_id = k.osm_way_id
+  GROUP BY k.id, k.user_id, k.osm_way_id
+  HAVING COUNT(*) > 1
+) merged
+WHERE s.id = merged.id;
+
+DELETE FROM public.segments s
+WHERE NOT EXISTS (SELECT 1 FROM segment_keepers k WHERE k.id = s.id);
+
+-- The unique constraint's index replaces the plain one
+DROP INDEX IF EXISTS public.idx_segments_user_way;
+ALTER TABLE public.segments
+  ADD CONSTRAINT segments_user_way_key UNIQUE (user_id, osm_way_id);
+
+-- Session that last counted a visit; replays from the same session don't count again
+ALTER TABLE public.segments ADD COLUMN last_session_id UUID;
+
+-- Record a visit to a way: creates the segment on first visit, otherwise
+-- counts at most one visit per session, moves last_visited_at up to the
+-- visit's time and unions the covered sub-edges. Safe to replay, however
+-- late the write arrives
+CREATE OR REPLACE FUNCTION public.upsert_segment_visit(
+  p_user_id UUID,
+  p_osm_way_id TEXT,
+  p_session_id UUID,
+  p_geometry JSONB,
+  p_distance_meters REAL,
+  p_edge_count INTEGER,
+  p_edges INTEGER[],
+  p_visited_at TIMESTAMPTZ DEFAULT now() -- The visit's first fix
+)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  INSERT INTO public.segments AS s (
+    user_id, osm_way_id, geometry, distance_meters, edge_count, covered_edges, last_session_id,
+    first_visited_at, last_visited_at
+  )
+  VALUES (
+    p_user_id,
+    p_osm_way_id,
+    p_geometry,
+    p_distance_meters,
+    p_edge_count,
+    ARRAY(SELECT DISTINCT e FROM unnest(COALESCE(p_edges, '{}')) AS e ORDER BY e),
+    p_session_id,
+    p_visited_at,
+    p_visited_at
+  )
+  ON CONFLICT (user_id, osm_way_id) DO UPDATE
+  SET visit_count = s.visit_count +
+        CASE WHEN s.last_session_id IS DISTINCT FROM EXCLUDED.last_session_id THEN 1 ELSE 0 END,
+      last_session_id = EXCLUDED.last_session_id,
+      first_visited_at = LEAST(s.first_visited_at, EXCLUDED.first_visited_at),
+      last_visited_at = GREATEST(s.last_visited_at, EXCLUDED.last_visited_at),
+      edge_count = COALESCE(EXCLUDED.edge_count, s.edge_count),
+      covered_edges = ARRAY(
+        SELECT DISTINCT e FROM unnest(s.covered_edges || EXCLUDED.covered_edges) AS e ORDER BY e
+      );
+$$;
@@ -0,0 +1,196 @@
+-- Provenance: which trace painted which segment, and when. Segment visit
+-- counts, visit times and coverage are derived from these rows, so editing
+-- or deleting a trace can roll its contribution back
+CREATE TABLE public.segment_visits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  segment_id UUID NOT NULL REFERENCES public.segments ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  trace_id UUID REFERENCES public.traces ON DELETE CASCADE, -- NULL for visits recorded before provenance
+  visited_at TIMESTAMP WITH TIME ZONE NOT NULL, -- First fix on the segment during the visit
+  direction SMALLINT NOT NULL DEFAULT 0, -- 1 along the way's geometry, -1 against it, 0 unknown
+  distance_meters REAL NOT NULL DEFAULT 0, -- Ground covered on the segment during the visit
+  covered_edges INTEGER[] NOT NULL DEFAULT '{}', -- Sub-edges travelled during the visit
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (segment_id, trace_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.segment_visits ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own visits
+CREATE POLICY "Users can view their own segment visits" 
+ON public.segment_visits 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Visits can only attach to the user's own segments and traces
+CREATE POLICY "Users can insert their own segment visits" 
+ON public.segment_visits 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.segments s WHERE s.id = segment_id AND s.user_id = auth.uid())
+  AND (trace_id IS NULL OR EXISTS (SELECT 1 FROM public.traces t WHERE t.id = trace_id AND t.user_id = auth.uid()))
+);
+
+CREATE POLICY "Users can update their own segment visits" 
+ON public.segment_visits 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.segments s WHERE s.id = segment_id AND s.user_id = auth.uid())
+  AND (trace_id IS NULL OR EXISTS (SELECT 1 FROM public.traces t WHERE t.id = trace_id AND t.user_id = auth.uid()))
+);
+
+CREATE POLICY "Users can delete their own segment visits" 
+ON public.segment_visits 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_segment_visits_user_id ON public.segment_visits(user_id);
+CREATE INDEX idx_segment_visits_trace_id ON public.segment_visits(trace_id);
+
+-- Backfill: existing segments get trace-less visits reproducing their visit
+-- count and first/last visit times, with their coverage on the first one
+INSERT INTO public.segment_visits (segment_id, user_id, visited_at, covered_edges)
+SELECT
+  s.id,
+  s.user_id,
+  CASE WHEN n = s.visit_count AND n > 1 THEN s.last_visited_at ELSE s.first_visited_at END,
+  CASE WHEN n = 1 THEN s.covered_edges ELSE '{}' END
+FROM public.segments s
+CROSS JOIN LATERAL generate_series(1, GREATEST(s.visit_count, 1)) AS n;
+
+-- Rebuild visit counts, visit times and coverage of the given segments from
+-- their visits. Segments left without any visit are deleted
+CREATE OR REPLACE FUNCTION public.recompute_segment_visits(p_segment_ids UUID[])
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  UPDATE public.segments s
+  SET visit_count = v.visit_count,
+      first_visited_at = v.first_visited_at,
+      last_visited_at = v.last_visited_at,
+      covered_edges = ARRAY(
+        SELECT DISTINCT e
+        FROM public.segment_visits sv, unnest(sv.covered_edges) AS e
+        WHERE sv.segment_id = s.id
+          AND (s.edge_count IS NULL OR e < s.edge_count)
+        ORDER BY e
+      )
+  FROM (
+    SELECT
+      segment_id,
+      COUNT(*)::INTEGER AS visit_count,
+      MIN(visited_at) AS first_visited_at,
+      MAX(visited_at) AS last_visited_at
+    FROM public.segment_visits
+    WHERE segment_id = ANY(p_segment_ids)
+    GROUP BY segment_id
+  ) v
+  WHERE s.id = v.segment_id;
+
+  DELETE FROM public.segments s
+  WHERE s.id = ANY(p_segment_ids)
+    AND NOT EXISTS (SELECT 1 FROM public.segment_visits sv WHERE sv.segment_id = s.id);
+$$;
+
+-- Rebuild every segment of the signed-in user
+CREATE OR REPLACE FUNCTION public.recompute_user_segments()
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT public.recompute_segment_visits(
+    ARRAY(SELECT id FROM public.segments WHERE user_id = auth.uid())
+  );
+$$;
+
+-- Record (or extend) a trace's visit to a way: creates the segment on first
+-- visit, merges the visit's coverage and distance, then rebuilds the segment
+-- from its visits. Distance and coverage are cumulative for the visit, so
+-- replays are harmless. Without p_geometry the way's own geometry is used
+CREATE OR REPLACE FUNCTION public.record_segment_visit(
+  p_user_id UUID,
+  p_osm_way_id TEXT,
+  p_trace_id UUID,
+  p_visited_at TIMESTAMP WITH TIME ZONE,
+  p_direction SMALLINT,
+  p_distance_meters REAL,
+  p_edge_count INTEGER,
+  p_edges INTEGER[],
+  p_geometry JSONB DEFAULT NULL
+)
+RETURNS UUID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_segment_id UUID;
+  v_geometry JSONB := p_geometry;
+  v_length REAL := p_distance_meters;
+BEGIN
+  SELECT id INTO v_segment_id
+  FROM public.segments
+  WHERE user_id = p_user_id AND osm_way_id = p_osm_way_id;
+
+  IF v_segment_id IS NULL THEN
+    IF v_geometry IS NULL AND p_osm_way_id ~ '^\d+$' THEN
+      SELECT geometry, length_meters INTO v_geometry, v_length
+      FROM public.ways
+      WHERE id = p_osm_way_id::BIGINT;
+    END IF;
+    -- Unknown way and nothing to draw: no segment to attach the visit to
+    IF v_geometry IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    INSERT INTO public.segments (user_id, osm_way_id, geometry, distance_meters, edge_count, last_session_id)
+    VALUES (p_user_id, p_osm_way_id, v_geometry, v_length, p_edge_count, p_trace_id)
+    ON CONFLICT (user_id, osm_way_id) DO NOTHING
+    RETURNING id INTO v_segment_id;
+
+    -- Lost a race with a concurrent insert
+    IF v_segment_id IS NULL THEN
+      SELECT id INTO v_segment_id
+      FROM public.segments
+      WHERE user_id = p_user_id AND osm_way_id = p_osm_way_id;
+    END IF;
+  ELSE
+    UPDATE public.segments
+    SET edge_count = COALESCE(p_edge_count, edge_count),
+        last_session_id = p_trace_id
+    WHERE id = v_segment_id;
+  END IF;
+
+  INSERT INTO public.segment_visits AS v (
+    segment_id, user_id, trace_id, visited_at, direction, distance_meters, covered_edges
+  )
+  VALUES (
+    v_segment_id,
+    p_user_id,
+    p_trace_id,
+    p_visited_at,
+    COALESCE(p_direction, 0),
+    COALESCE(p_distance_meters, 0),
+    ARRAY(SELECT DISTINCT e FROM unnest(COALESCE(p_edges, '{}')) AS e ORDER BY e)
+  )
+  ON CONFLICT (segment_id, trace_id) DO UPDATE
+  SET visited_at = LEAST(v.visited_at, EXCLUDED.visited_at),
+      direction = CASE WHEN v.direction = 0 THEN EXCLUDED.direction ELSE v.direction END,
+      distance_meters = GREATEST(v.distance_meters, EXCLUDED.distance_meters),
+      covered_edges = ARRAY(
+        SELECT DISTINCT e FROM unnest(v.covered_edges || EXCLUDED.covered_edges) AS e ORDER BY e
+      );
+
+  PERFORM public.recompute_segment_visits(ARRAY[v_segment_id]);
+  RETURN v_segment_id;
+END;
+$$;
+
+-- Every segment write now goes through record_segment_visit, so the
+-- per-session upsert and the coverage merge are retired
+DROP FUNCTION public.upsert_segment_visit(UUID, TEXT, UUID, JSONB, REAL, INTEGER, INTEGER[], TIMESTAMPTZ);
+DROP FUNCTION public.merge_segment_coverage(UUID, TEXT, INTEGER, INTEGER[]);
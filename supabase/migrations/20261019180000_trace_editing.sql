@@ -0,0 +1,240 @@
+-- Trace summaries are derived from the points, so they stay right when a
+-- trace is trimmed, split or merged
+COMMENT ON COLUMN public.traces.summary IS
+  '{distance (m), duration (s, excluding pauses), start_time, end_time, points}, refreshed when points change';
+
+-- Recompute a trace's summary from its points
+CREATE OR REPLACE FUNCTION public.refresh_trace_summary(p_trace_id UUID)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  WITH raw AS (
+    SELECT public.get_trace_points(p_trace_id) AS points
+  ),
+  -- Legacy traces are a flat array of points: a single part
+  parts AS (
+    SELECT CASE WHEN jsonb_typeof(points -> 0) = 'array' THEN points ELSE jsonb_build_array(points) END AS parts
+    FROM raw
+  ),
+  fixes AS (
+    SELECT
+      p.part_no,
+      f.ord,
+      (f.fix ->> 'lat')::DOUBLE PRECISION AS lat,
+      (f.fix ->> 'lng')::DOUBLE PRECISION AS lng,
+      (f.fix ->> 'timestamp')::DOUBLE PRECISION AS ts
+    FROM parts
+    CROSS JOIN LATERAL jsonb_array_elements(parts.parts) WITH ORDINALITY AS p(part, part_no)
+    CROSS JOIN LATERAL jsonb_array_elements(p.part) WITH ORDINALITY AS f(fix, ord)
+    WHERE jsonb_typeof(p.part) = 'array'
+  ),
+  hops AS (
+    SELECT
+      part_no,
+      ts,
+      -- Haversine, as in the client's geo helpers; pause gaps between parts aren't counted
+      2 * 6371000 * asin(sqrt(
+        sin(radians(lat - LAG(lat) OVER w) / 2) ^ 2 +
+        cos(radians(LAG(lat) OVER w)) * cos(radians(lat)) * sin(radians(lng - LAG(lng) OVER w) / 2) ^ 2
+      )) AS distance
+    FROM fixes
+    WINDOW w AS (PARTITION BY part_no ORDER BY ord)
+  ),
+  per_part AS (
+    SELECT part_no, SUM(distance) AS distance, MIN(ts) AS started, MAX(ts) AS ended, COUNT(*) AS points
+    FROM hops
+    GROUP BY part_no
+  )
+  UPDATE public.traces t
+  SET summary = COALESCE(t.summary, '{}'::jsonb) || jsonb_build_object(
+    'distance', COALESCE(round(s.distance::NUMERIC, 1), 0),
+    'duration', COALESCE(round(s.duration::NUMERIC / 1000), 0),
+    'start_time', to_timestamp(s.started / 1000),
+    'end_time', to_timestamp(s.ended / 1000),
+    'points', s.points
+  )
+  FROM (
+    SELECT
+      SUM(distance) AS distance,
+      SUM(ended - started) AS duration,
+      MIN(started) AS started,
+      MAX(ended) AS ended,
+      COALESCE(SUM(points), 0) AS points
+    FROM per_part
+  ) s
+  WHERE t.id = p_trace_id;
+$$;
+
+-- Fold an appended chunk into its trace's summary. Only the chunk and the
+-- last point before it in the same part are read, so appends stay cheap
+-- however long the trace gets. Chunks arrive in sequence order (the outbox
+-- replays in order); apply_trace_edits recomputes summaries in full
+CREATE OR REPLACE FUNCTION public.refresh_trace_summary_on_chunk()
+RETURNS TRIGGER
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_previous JSONB;
+  v_chunk RECORD;
+BEGIN
+  IF jsonb_typeof(NEW.points) IS DISTINCT FROM 'array' OR jsonb_array_length(NEW.points) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- A new part isn't joined to the one before: that gap was a pause
+  SELECT c.points -> -1 INTO v_previous
+  FROM public.trace_chunks c
+  WHERE c.trace_id = NEW.trace_id AND c.part = NEW.part AND c.sequence < NEW.sequence
+  ORDER BY c.sequence DESC
+  LIMIT 1;
+
+  WITH points AS (
+    SELECT 0::BIGINT AS ord, v_previous AS fix WHERE v_previous IS NOT NULL
+    UNION ALL
+    SELECT ord, fix FROM jsonb_array_elements(NEW.points) WITH ORDINALITY AS e(fix, ord)
+  ),
+  fixes AS (
+    SELECT
+      ord,
+      (fix ->> 'lat')::DOUBLE PRECISION AS lat,
+      (fix ->> 'lng')::DOUBLE PRECISION AS lng,
+      (fix ->> 'timestamp')::DOUBLE PRECISION AS ts
+    FROM points
+  ),
+  hops AS (
+    SELECT
+      ts,
+      2 * 6371000 * asin(sqrt(
+        sin(radians(lat - LAG(lat) OVER w) / 2) ^ 2 +
+        cos(radians(LAG(lat) OVER w)) * cos(radians(lat)) * sin(radians(lng - LAG(lng) OVER w) / 2) ^ 2
+      )) AS distance
+    FROM fixes
+    WINDOW w AS (ORDER BY ord)
+  )
+  SELECT
+    COALESCE(SUM(distance), 0) AS distance,
+    COALESCE(MAX(ts) - MIN(ts), 0) AS duration,
+    MIN(ts) AS started,
+    MAX(ts) AS ended
+  INTO v_chunk
+  FROM hops;
+
+  -- LEAST and GREATEST skip the times of a trace without a summary yet
+  UPDATE public.traces t
+  SET summary = COALESCE(t.summary, '{}'::jsonb) || jsonb_build_object(
+    'distance', round(COALESCE((t.summary ->> 'distance')::NUMERIC, 0) + v_chunk.distance::NUMERIC, 1),
+    'duration', round(COALESCE((t.summary ->> 'duration')::NUMERIC, 0) + v_chunk.duration::NUMERIC / 1000, 1),
+    'start_time', LEAST((t.summary ->> 'start_time')::TIMESTAMP WITH TIME ZONE, to_timestamp(v_chunk.started / 1000)),
+    'end_time', GREATEST((t.summary ->> 'end_time')::TIMESTAMP WITH TIME ZONE, to_timestamp(v_chunk.ended / 1000)),
+    'points', COALESCE((t.summary ->> 'points')::INTEGER, 0) + jsonb_array_length(NEW.points)
+  )
+  WHERE t.id = NEW.trace_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_trace_summary_on_chunk
+  AFTER INSERT ON public.trace_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_trace_summary_on_chunk();
+
+-- Backfill summaries of existing traces
+SELECT public.refresh_trace_summary(id) FROM public.traces;
+
+-- Trace history is listed newest first
+CREATE INDEX idx_traces_user_created ON public.traces(user_id, created_at DESC);
+
+-- Delete and rewrite the signed-in user's traces in one transaction, then
+-- rebuild every segment they painted before or after. p_edits is an array of
+--   {trace_id, created_at?, parts: [[point, ...], ...], visits: [...]}
+-- where each visit has the arguments of record_segment_visit:
+--   {osm_way_id, visited_at, direction, distance_meters, edge_count, covered_edges, geometry}
+-- Edited traces that don't exist yet (the second half of a split) are created.
+-- Segments left without any visit are deleted by the recompute.
+CREATE OR REPLACE FUNCTION public.apply_trace_edits(
+  p_edits JSONB,
+  p_deleted UUID[] DEFAULT '{}'
+)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_trace_ids UUID[];
+  v_segment_ids UUID[];
+  v_edit JSONB;
+  v_trace_id UUID;
+  v_part JSONB;
+  v_part_no BIGINT;
+  v_visit JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  v_trace_ids := ARRAY(
+    SELECT (e ->> 'trace_id')::UUID FROM jsonb_array_elements(COALESCE(p_edits, '[]')) AS e
+  ) || COALESCE(p_deleted, '{}');
+
+  -- Segments the traces painted before the edit
+  v_segment_ids := ARRAY(
+    SELECT DISTINCT segment_id
+    FROM public.segment_visits
+    WHERE trace_id = ANY(v_trace_ids) AND user_id = v_user_id
+  );
+
+  -- Chunks and visits go with the trace
+  DELETE FROM public.traces WHERE id = ANY(p_deleted) AND user_id = v_user_id;
+
+  FOR v_edit IN SELECT e FROM jsonb_array_elements(COALESCE(p_edits, '[]')) AS e LOOP
+    v_trace_id := (v_edit ->> 'trace_id')::UUID;
+
+    INSERT INTO public.traces (id, user_id, created_at)
+    VALUES (v_trace_id, v_user_id, COALESCE((v_edit ->> 'created_at')::TIMESTAMP WITH TIME ZONE, now()))
+    ON CONFLICT (id) DO NOTHING;
+
+    -- The id may belong to someone else's trace
+    IF NOT EXISTS (SELECT 1 FROM public.traces WHERE id = v_trace_id AND user_id = v_user_id) THEN
+      RAISE EXCEPTION 'Trace % not found', v_trace_id USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.trace_chunks WHERE trace_id = v_trace_id;
+    DELETE FROM public.segment_visits WHERE trace_id = v_trace_id;
+
+    -- The old match no longer fits; inserting chunks queues the trace again
+    UPDATE public.traces
+    SET points = '[]'::jsonb, snapped_geometry = NULL
+    WHERE id = v_trace_id;
+
+    FOR v_part, v_part_no IN
+      SELECT part, part_no - 1 FROM jsonb_array_elements(v_edit -> 'parts') WITH ORDINALITY AS p(part, part_no)
+    LOOP
+      INSERT INTO public.trace_chunks (trace_id, user_id, sequence, part, points)
+      VALUES (v_trace_id, v_user_id, v_part_no, v_part_no, v_part);
+    END LOOP;
+
+    -- The chunk trigger only adds to the summary of the points that were deleted
+    PERFORM public.refresh_trace_summary(v_trace_id);
+
+    FOR v_visit IN SELECT v FROM jsonb_array_elements(COALESCE(v_edit -> 'visits', '[]')) AS v LOOP
+      PERFORM public.record_segment_visit(
+        v_user_id,
+        v_visit ->> 'osm_way_id',
+        v_trace_id,
+        (v_visit ->> 'visited_at')::TIMESTAMP WITH TIME ZONE,
+        COALESCE((v_visit ->> 'direction')::SMALLINT, 0),
+        COALESCE((v_visit ->> 'distance_meters')::REAL, 0),
+        (v_visit ->> 'edge_count')::INTEGER,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_visit -> 'covered_edges', '[]'))::INTEGER),
+        NULLIF(v_visit -> 'geometry', 'null'::jsonb)
+      );
+    END LOOP;
+  END LOOP;
+
+  PERFORM public.recompute_segment_visits(v_segment_ids);
+END;
+$$;
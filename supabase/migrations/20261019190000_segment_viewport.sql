@@ -0,0 +1,57 @@
+-- Segments are loaded by map viewport rather than all at once. Each one gets
+-- a PostGIS geometry derived from its GeoJSON, with a spatial index; the
+-- JSONB column stays the source of truth, so writers are unchanged
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.segments
+  ADD COLUMN geom extensions.geometry(LineString, 4326)
+  GENERATED ALWAYS AS (extensions.ST_SetSRID(extensions.ST_GeomFromGeoJSON(geometry), 4326)) STORED;
+
+CREATE INDEX idx_segments_geom ON public.segments USING GIST (geom);
+
+-- The signed-in user's segments intersecting a bounding box, with street
+-- names from the road network
+CREATE OR REPLACE FUNCTION public.get_segments_in_bbox(
+  p_min_lng DOUBLE PRECISION,
+  p_min_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION
+)
+RETURNS TABLE (
+  osm_way_id TEXT,
+  name TEXT,
+  highway TEXT,
+  geometry JSONB,
+  visit_count INTEGER,
+  edge_count INTEGER,
+  covered_edges INTEGER[]
+)
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  SELECT s.osm_way_id, w.name, w.highway, s.geometry, s.visit_count, s.edge_count, s.covered_edges
+  FROM public.segments s
+  -- Grid-cell segments from before the road network have no way
+  LEFT JOIN public.ways w
+    ON w.id = CASE WHEN s.osm_way_id ~ '^\d+$' THEN s.osm_way_id::BIGINT END
+  WHERE s.user_id = auth.uid()
+    AND s.geom && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326);
+$$;
+
+-- Totals over all of the signed-in user's segments, wherever they are
+CREATE OR REPLACE FUNCTION public.get_segment_stats()
+RETURNS TABLE (
+  streets_discovered INTEGER,
+  total_distance DOUBLE PRECISION
+)
+STABLE
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT
+    (COUNT(*) FILTER (WHERE osm_way_id ~ '^\d+$'))::INTEGER,
+    COALESCE(SUM(distance_meters), 0)::DOUBLE PRECISION
+  FROM public.segments
+  WHERE user_id = auth.uid();
+$$;
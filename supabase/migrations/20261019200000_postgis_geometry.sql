@@ -0,0 +1,12 @@
+-- Snapped traces get a PostGIS geometry derived from their GeoJSON, like
+-- segments, with a GiST index for spatial queries in the database. The JSONB
+-- column stays the source of truth, so the matcher writing it is unchanged
+
+-- Snapped traces were once single LineStrings; ST_Multi covers both
+ALTER TABLE public.traces
+  ADD COLUMN snapped_geom extensions.geometry(MultiLineString, 4326)
+  GENERATED ALWAYS AS (
+    extensions.ST_Multi(extensions.ST_SetSRID(extensions.ST_GeomFromGeoJSON(snapped_geometry), 4326))
+  ) STORED;
+
+CREATE INDEX idx_traces_snapped_geom ON public.traces USING GIST (snapped_geom);
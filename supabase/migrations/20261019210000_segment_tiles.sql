@@ -0,0 +1,83 @@
+-- Vector tiles of the signed-in user's painted coverage, for when there are
+-- too many segments to draw from GeoJSON. Served by the segment-tiles edge
+-- function; features carry the same properties as the app's GeoJSON ones
+CREATE OR REPLACE FUNCTION public.get_segment_tile(p_z INTEGER, p_x INTEGER, p_y INTEGER)
+RETURNS BYTEA
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  WITH bounds AS (
+    SELECT ST_TileEnvelope(p_z, p_x, p_y) AS envelope
+  ),
+  tile_segments AS (
+    SELECT s.osm_way_id, s.geom, s.visit_count, s.completion, s.edge_count, s.covered_edges
+    FROM public.segments s, bounds b
+    WHERE s.user_id = auth.uid()
+      AND s.geom && ST_Transform(b.envelope, 4326)
+  ),
+  -- Consecutive covered sub-edges form one run, drawn as one line
+  runs AS (
+    SELECT osm_way_id, MIN(edge) AS first_edge, MAX(edge) AS last_edge
+    FROM (
+      SELECT s.osm_way_id, e.edge, e.edge - ROW_NUMBER() OVER (PARTITION BY s.osm_way_id ORDER BY e.edge) AS run
+      FROM tile_segments s
+      CROSS JOIN LATERAL unnest(s.covered_edges) AS e(edge)
+      WHERE s.edge_count > 0
+    ) edges
+    GROUP BY osm_way_id, run
+  ),
+  -- Only the travelled sub-edges are painted, like coveredGeometry in the app
+  covered AS (
+    SELECT s.osm_way_id, ST_Collect(ST_LineSubstring(
+      s.geom,
+      LEAST(r.first_edge::DOUBLE PRECISION / s.edge_count, 1),
+      LEAST((r.last_edge + 1)::DOUBLE PRECISION / s.edge_count, 1)
+    )) AS geom
+    FROM tile_segments s
+    JOIN runs r ON r.osm_way_id = s.osm_way_id
+    GROUP BY s.osm_way_id
+    UNION ALL
+    -- Grid cells and segments from before coverage was tracked are painted whole
+    SELECT osm_way_id, geom
+    FROM tile_segments
+    WHERE edge_count IS NULL OR edge_count = 0
+  ),
+  features AS (
+    SELECT
+      s.osm_way_id AS id,
+      w.name,
+      s.visit_count AS "visitCount",
+      s.completion,
+      ST_AsMVTGeom(ST_Transform(c.geom, 3857), b.envelope) AS geom
+    FROM covered c
+    JOIN tile_segments s ON s.osm_way_id = c.osm_way_id
+    CROSS JOIN bounds b
+    LEFT JOIN public.ways w
+      ON w.id = CASE WHEN s.osm_way_id ~ '^\d+$' THEN s.osm_way_id::BIGINT END
+  )
+  SELECT COALESCE(ST_AsMVT(features, 'segments', 4096, 'geom'), ''::BYTEA)
+  FROM features
+  WHERE geom IS NOT NULL;
+$$;
+
+-- The segment count decides whether the app draws from tiles or GeoJSON
+DROP FUNCTION public.get_segment_stats();
+
+CREATE FUNCTION public.get_segment_stats()
+RETURNS TABLE (
+  segment_count INTEGER,
+  streets_discovered INTEGER,
+  total_distance DOUBLE PRECISION
+)
+STABLE
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT
+    COUNT(*)::INTEGER,
+    (COUNT(*) FILTER (WHERE osm_way_id ~ '^\d+$'))::INTEGER,
+    COALESCE(SUM(distance_meters), 0)::DOUBLE PRECISION
+  FROM public.segments
+  WHERE user_id = auth.uid();
+$$;
@@ -0,0 +1,87 @@
+-- Privacy zones are kept in users.preferences.excluded_zones as
+--   [{id, label, shape: {type: 'circle', center: [lng, lat], radius} | {type: 'polygon', coordinates: [[lng, lat], ...]}}]
+-- The client clips live tracking to them; these scrub what was stored
+-- before a zone was added.
+
+-- The signed-in user's traces with a point inside p_polygon (a GeoJSON Polygon)
+CREATE OR REPLACE FUNCTION public.get_traces_within_polygon(p_polygon JSONB)
+RETURNS TABLE (trace_id UUID)
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  WITH zone AS (
+    SELECT ST_SetSRID(ST_GeomFromGeoJSON(p_polygon::TEXT), 4326) AS geom
+  ),
+  points AS (
+    SELECT c.trace_id, p.point
+    FROM public.trace_chunks c
+    CROSS JOIN LATERAL jsonb_array_elements(c.points) AS p(point)
+    WHERE c.user_id = auth.uid()
+    UNION ALL
+    -- Traces saved before chunking, flat or in parts
+    SELECT t.id, p.point
+    FROM public.traces t
+    CROSS JOIN LATERAL jsonb_path_query(t.points, 'strict $.** ? (exists(@.lat))') AS p(point)
+    WHERE t.user_id = auth.uid()
+  )
+  SELECT DISTINCT points.trace_id
+  FROM points, zone
+  WHERE ST_Intersects(
+    zone.geom,
+    ST_SetSRID(ST_MakePoint((points.point ->> 'lng')::DOUBLE PRECISION, (points.point ->> 'lat')::DOUBLE PRECISION), 4326)
+  );
+$$;
+
+-- Drop the signed-in user's rejected fixes inside p_polygon (a GeoJSON Polygon)
+CREATE OR REPLACE FUNCTION public.scrub_rejected_points(p_polygon JSONB)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  WITH zone AS (
+    SELECT ST_SetSRID(ST_GeomFromGeoJSON(p_polygon::TEXT), 4326) AS geom
+  )
+  UPDATE public.traces t
+  SET rejected_points = COALESCE((
+    SELECT jsonb_agg(r.point ORDER BY r.ord)
+    FROM jsonb_array_elements(t.rejected_points) WITH ORDINALITY AS r(point, ord)
+    WHERE NOT ST_Intersects(
+      zone.geom,
+      ST_SetSRID(ST_MakePoint((r.point ->> 'lng')::DOUBLE PRECISION, (r.point ->> 'lat')::DOUBLE PRECISION), 4326)
+    )
+  ), '[]'::jsonb)
+  FROM zone
+  WHERE t.user_id = auth.uid() AND t.rejected_points <> '[]'::jsonb;
+$$;
+
+-- Drop what the signed-in user painted inside p_polygon (a GeoJSON Polygon)
+-- that no trace replay can clip: visits recorded before provenance, and
+-- grid-cell segments, which are drawn from the user's own fixes. Segments
+-- left without visits are deleted
+CREATE OR REPLACE FUNCTION public.scrub_segments_within_polygon(p_polygon JSONB)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_segment_ids UUID[];
+BEGIN
+  SELECT ARRAY_AGG(s.id) INTO v_segment_ids
+  FROM public.segments s
+  WHERE s.user_id = auth.uid()
+    AND ST_Intersects(s.geom, ST_SetSRID(ST_GeomFromGeoJSON(p_polygon::TEXT), 4326));
+
+  IF v_segment_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.segment_visits v
+  USING public.segments s
+  WHERE s.id = v.segment_id
+    AND s.id = ANY(v_segment_ids)
+    AND (v.trace_id IS NULL OR s.osm_way_id !~ '^\d+$');
+
+  PERFORM public.recompute_segment_visits(v_segment_ids);
+END;
+$$;
@@ -0,0 +1,146 @@
+-- Coverage colour modes need each segment's first and last visit times and
+-- the activity it was last travelled by. The segment RPCs gain those columns;
+-- a changed return type means dropping and recreating them
+
+-- A trace's activity: the one recorded in its summary, or else guessed from
+-- its average moving speed (m/s)
+CREATE OR REPLACE FUNCTION public.trace_activity_type(p_summary JSONB)
+RETURNS TEXT
+IMMUTABLE
+SET search_path = public
+LANGUAGE sql AS $$
+  SELECT COALESCE(
+    NULLIF(p_summary ->> 'activity_type', ''),
+    CASE
+      WHEN COALESCE((p_summary ->> 'duration')::DOUBLE PRECISION, 0) <= 0 THEN NULL
+      WHEN (p_summary ->> 'distance')::DOUBLE PRECISION / (p_summary ->> 'duration')::DOUBLE PRECISION < 2 THEN 'walk'
+      WHEN (p_summary ->> 'distance')::DOUBLE PRECISION / (p_summary ->> 'duration')::DOUBLE PRECISION < 4 THEN 'run'
+      WHEN (p_summary ->> 'distance')::DOUBLE PRECISION / (p_summary ->> 'duration')::DOUBLE PRECISION < 8.5 THEN 'cycle'
+      ELSE 'drive'
+    END
+  );
+$$;
+
+-- A segment's latest visit, for the activity of the trace that made it
+CREATE INDEX idx_segment_visits_segment_visited_at ON public.segment_visits(segment_id, visited_at DESC);
+
+DROP FUNCTION public.get_segments_in_bbox(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.get_segments_in_bbox(
+  p_min_lng DOUBLE PRECISION,
+  p_min_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION
+)
+RETURNS TABLE (
+  osm_way_id TEXT,
+  name TEXT,
+  highway TEXT,
+  geometry JSONB,
+  visit_count INTEGER,
+  edge_count INTEGER,
+  covered_edges INTEGER[],
+  first_visited_at TIMESTAMP WITH TIME ZONE,
+  last_visited_at TIMESTAMP WITH TIME ZONE,
+  activity_type TEXT
+)
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  SELECT
+    s.osm_way_id, w.name, w.highway, s.geometry, s.visit_count, s.edge_count, s.covered_edges,
+    s.first_visited_at, s.last_visited_at, a.activity_type
+  FROM public.segments s
+  -- Grid-cell segments from before the road network have no way
+  LEFT JOIN public.ways w
+    ON w.id = CASE WHEN s.osm_way_id ~ '^\d+$' THEN s.osm_way_id::BIGINT END
+  -- The activity of the trace that last visited the segment
+  LEFT JOIN LATERAL (
+    SELECT public.trace_activity_type(t.summary) AS activity_type
+    FROM public.segment_visits v
+    JOIN public.traces t ON t.id = v.trace_id
+    WHERE v.segment_id = s.id
+    ORDER BY v.visited_at DESC
+    LIMIT 1
+  ) a ON true
+  WHERE s.user_id = auth.uid()
+    AND s.geom && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326);
+$$;
+
+-- Tile features carry the visit times and activity too
+CREATE OR REPLACE FUNCTION public.get_segment_tile(p_z INTEGER, p_x INTEGER, p_y INTEGER)
+RETURNS BYTEA
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+LANGUAGE sql AS $$
+  WITH bounds AS (
+    SELECT ST_TileEnvelope(p_z, p_x, p_y) AS envelope
+  ),
+  tile_segments AS (
+    SELECT
+      s.id, s.osm_way_id, s.geom, s.visit_count, s.completion, s.edge_count, s.covered_edges,
+      s.first_visited_at, s.last_visited_at, a.activity_type
+    FROM public.segments s
+    CROSS JOIN bounds b
+    -- The activity of the trace that last visited the segment
+    LEFT JOIN LATERAL (
+      SELECT public.trace_activity_type(t.summary) AS activity_type
+      FROM public.segment_visits v
+      JOIN public.traces t ON t.id = v.trace_id
+      WHERE v.segment_id = s.id
+      ORDER BY v.visited_at DESC
+      LIMIT 1
+    ) a ON true
+    WHERE s.user_id = auth.uid()
+      AND s.geom && ST_Transform(b.envelope, 4326)
+  ),
+  -- Consecutive covered sub-edges form one run, drawn as one line
+  runs AS (
+    SELECT osm_way_id, MIN(edge) AS first_edge, MAX(edge) AS last_edge
+    FROM (
+      SELECT s.osm_way_id, e.edge, e.edge - ROW_NUMBER() OVER (PARTITION BY s.osm_way_id ORDER BY e.edge) AS run
+      FROM tile_segments s
+      CROSS JOIN LATERAL unnest(s.covered_edges) AS e(edge)
+      WHERE s.edge_count > 0
+    ) edges
+    GROUP BY osm_way_id, run
+  ),
+  -- Only the travelled sub-edges are painted, like coveredGeometry in the app
+  covered AS (
+    SELECT s.osm_way_id, ST_Collect(ST_LineSubstring(
+      s.geom,
+      LEAST(r.first_edge::DOUBLE PRECISION / s.edge_count, 1),
+      LEAST((r.last_edge + 1)::DOUBLE PRECISION / s.edge_count, 1)
+    )) AS geom
+    FROM tile_segments s
+    JOIN runs r ON r.osm_way_id = s.osm_way_id
+    GROUP BY s.osm_way_id
+    UNION ALL
+    -- Grid cells and segments from before coverage was tracked are painted whole
+    SELECT osm_way_id, geom
+    FROM tile_segments
+    WHERE edge_count IS NULL OR edge_count = 0
+  ),
+  features AS (
+    SELECT
+      s.osm_way_id AS id,
+      w.name,
+      s.visit_count AS "visitCount",
+      s.completion,
+      -- Milliseconds since the epoch, like the app's timestamps
+      (EXTRACT(EPOCH FROM s.first_visited_at) * 1000)::DOUBLE PRECISION AS "firstVisitedAt",
+      (EXTRACT(EPOCH FROM s.last_visited_at) * 1000)::DOUBLE PRECISION AS "lastVisitedAt",
+      s.activity_type AS activity,
+      ST_AsMVTGeom(ST_Transform(c.geom, 3857), b.envelope) AS geom
+    FROM covered c
+    JOIN tile_segments s ON s.osm_way_id = c.osm_way_id
+    CROSS JOIN bounds b
+    LEFT JOIN public.ways w
+      ON w.id = CASE WHEN s.osm_way_id ~ '^\d+$' THEN s.osm_way_id::BIGINT END
+  )
+  SELECT COALESCE(ST_AsMVT(features, 'segments', 4096, 'geom'), ''::BYTEA)
+  FROM features
+  WHERE geom IS NOT NULL;
+$$;
@@ -0,0 +1,13 @@
+-- Merge changed keys into a user's preferences in a single statement, so
+-- saves from different screens (settings, privacy zones) can't overwrite
+-- each other's keys. Creates the profile row if the user has none yet
+CREATE OR REPLACE FUNCTION public.update_preferences(p_user_id UUID, p_changes JSONB)
+RETURNS VOID
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql AS $$
+  INSERT INTO public.users AS u (id, preferences)
+  VALUES (p_user_id, p_changes)
+  ON CONFLICT (id) DO UPDATE
+  SET preferences = COALESCE(u.preferences, '{}'::jsonb) || EXCLUDED.preferences;
+$$;